@@ -1,12 +1,20 @@
 import React, { useState, useCallback } from 'react';
-import ImageParticleEffect from './components/ImageParticleEffect.tsx';
+import ImageParticleEffect, { type KeyframeSource, type MorphStatus, type TextSource } from './components/ImageParticleEffect.tsx';
+
+const DEFAULT_HOLD_TIME = 1500;
 
 const App = () => {
   const [sourceImageUrl, setSourceImageUrl] = useState<string>('https://i.imgur.com/8J0oT3b.png');
-  const [currentImageUrl, setCurrentImageUrl] = useState<string>(sourceImageUrl);
+  const [isShowingTarget, setIsShowingTarget] = useState(false);
   const [targetImageUrl, setTargetImageUrl] = useState<string | null>(null);
+  const [targetText, setTargetText] = useState<TextSource | null>(null);
+  const [textInput, setTextInput] = useState('');
   const [morphDirection, setMorphDirection] = useState<'toTarget' | 'toSource' | null>(null);
   const [isMorphing, setIsMorphing] = useState(false);
+  const [keyframes, setKeyframes] = useState<KeyframeSource[]>([]);
+  const [keyframeIndex, setKeyframeIndex] = useState(0);
+  const [shownKeyframe, setShownKeyframe] = useState(0);
+  const [autoplay, setAutoplay] = useState(false);
 
   const handleSourceImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
@@ -15,10 +23,15 @@ const App = () => {
       reader.onloadend = () => {
         const newSourceUrl = reader.result as string;
         setSourceImageUrl(newSourceUrl);
-        setCurrentImageUrl(newSourceUrl);
+        setIsShowingTarget(false);
         setTargetImageUrl(null);
+        setTargetText(null);
         setMorphDirection(null);
         setIsMorphing(false);
+        setKeyframes([]);
+        setKeyframeIndex(0);
+        setShownKeyframe(0);
+        setAutoplay(false);
       };
       reader.readAsDataURL(file);
     }
@@ -30,32 +43,69 @@ const App = () => {
       const reader = new FileReader();
       reader.onloadend = () => {
         setTargetImageUrl(reader.result as string);
+        setTargetText(null);
         setMorphDirection(null); // Reset direction when a new target is chosen
       };
       reader.readAsDataURL(file);
     }
   }, []);
 
+  const handleUseTextAsTarget = useCallback(() => {
+    const text = textInput.trim();
+    if (!text) return;
+    setTargetText({
+      text,
+      fontFamily: 'sans-serif',
+      fontWeight: 700,
+      fontSize: 120,
+      lineHeight: 1.1,
+      align: 'center',
+      color: '#ffffff',
+    });
+    setTargetImageUrl(null);
+    setMorphDirection(null); // Reset direction when a new target is chosen
+  }, [textInput]);
+
+  const hasTarget = targetImageUrl !== null || targetText !== null;
+  const isPlaylist = keyframes.length > 1;
+
+  // The playlist starts from the source, so the first target added makes two keyframes
+  const handleAddKeyframe = useCallback(() => {
+    const target = targetText ?? targetImageUrl;
+    if (!target || isMorphing) return;
+    setKeyframes(prev => [...(prev.length > 0 ? prev : [sourceImageUrl]), target]);
+    setIsShowingTarget(false);
+  }, [targetText, targetImageUrl, isMorphing, sourceImageUrl]);
+
+  const handleClearPlaylist = useCallback(() => {
+    setKeyframes([]);
+    setKeyframeIndex(0);
+    setShownKeyframe(0);
+    setAutoplay(false);
+  }, []);
+
+  const handleKeyframeChange = useCallback((index: number) => {
+    setShownKeyframe(index);
+    setKeyframeIndex(index);
+  }, []);
+
+  // Mid-morph the button reverses the running morph instead of waiting for it
+  const isHeadingToTarget = morphDirection ? morphDirection === 'toTarget' : isShowingTarget;
+
   const handleToggleMorph = useCallback(() => {
-    if (!targetImageUrl || isMorphing) return;
+    if (!hasTarget) return;
     setIsMorphing(true);
-    if (currentImageUrl === sourceImageUrl) {
-      setMorphDirection('toTarget');
-    } else {
-      setMorphDirection('toSource');
-    }
-  }, [targetImageUrl, isMorphing, currentImageUrl, sourceImageUrl]);
+    setMorphDirection(isHeadingToTarget ? 'toSource' : 'toTarget');
+  }, [hasTarget, isHeadingToTarget]);
 
 
-  const handleMorphComplete = useCallback((direction: 'toTarget' | 'toSource') => {
-    if (direction === 'toTarget' && targetImageUrl) {
-      setCurrentImageUrl(targetImageUrl);
-    } else if (direction === 'toSource') {
-      setCurrentImageUrl(sourceImageUrl);
-    }
+  const handleMorphComplete = useCallback((direction: 'toTarget' | 'toSource', status: MorphStatus) => {
+    // A cancelled morph has already been replaced by the reversed one
+    if (status === 'cancelled') return;
+    setIsShowingTarget(direction === 'toTarget');
     setIsMorphing(false);
     setMorphDirection(null);
-  }, [targetImageUrl, sourceImageUrl]);
+  }, []);
   
   const buttonStyle: React.CSSProperties = {
     cursor: 'pointer',
@@ -73,15 +123,15 @@ const App = () => {
 
   const disabledButtonStyle: React.CSSProperties = { ...buttonStyle, cursor: 'not-allowed', opacity: 0.5 };
 
-  const canMorph = !isMorphing && targetImageUrl;
-  const morphButtonText = currentImageUrl === sourceImageUrl ? 'Morph to Target' : 'Morph to Source';
+  const canMorph = hasTarget && !isPlaylist;
+  const morphButtonText = isHeadingToTarget ? 'Morph to Source' : 'Morph to Target';
 
 
   return (
     <div style={{ position: 'relative', width: '100vw', height: '100vh', backgroundColor: '#111111', color: '#eee', fontFamily: 'sans-serif' }}>
       <header style={{ position: 'absolute', top: '20px', left: '20px', zIndex: 10, maxWidth: 'calc(100% - 40px)' }}>
         <h1 style={{ margin: 0, fontSize: '2rem', fontWeight: 600 }}>Image to Fluid Particles</h1>
-        <p style={{ margin: '8px 0 16px', fontSize: '1rem', color: '#aaa' }}>Upload images and watch them morph back and forth.</p>
+        <p style={{ margin: '8px 0 16px', fontSize: '1rem', color: '#aaa' }}>Upload images or type a tagline and watch them morph back and forth.</p>
         <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '10px' }}>
           
           <label htmlFor="imageUpload" style={buttonStyle} onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#555'} onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#333'}>
@@ -94,10 +144,34 @@ const App = () => {
           </label>
           <input id="targetImageUpload" type="file" accept="image/*" aria-label="Upload a target image" onChange={handleTargetImageUpload} style={{ display: 'none' }} />
 
+          <input
+            type="text"
+            value={textInput}
+            placeholder="Type a tagline"
+            aria-label="Target text"
+            onChange={(e) => setTextInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleUseTextAsTarget(); }}
+            style={{ padding: '10px 12px', backgroundColor: '#222', color: '#eee', border: '1px solid #444', borderRadius: '8px', fontSize: '0.9rem' }}
+          />
+          <button onClick={handleUseTextAsTarget} style={textInput.trim() ? buttonStyle : disabledButtonStyle} disabled={!textInput.trim()}>
+            Target Text
+          </button>
+
           <button onClick={handleToggleMorph} style={canMorph ? buttonStyle : disabledButtonStyle} disabled={!canMorph}>
             {morphButtonText}
           </button>
           
+          <button onClick={handleAddKeyframe} style={hasTarget && !isMorphing ? buttonStyle : disabledButtonStyle} disabled={!hasTarget || isMorphing}>
+            Add to Playlist
+          </button>
+
+          {targetText && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', backgroundColor: '#222', padding: '5px 10px', borderRadius: '8px' }}>
+              <span style={{fontSize: '0.9rem'}}>Target:</span>
+              <span style={{fontSize: '0.9rem', fontWeight: 700, maxWidth: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap'}}>{targetText.text}</span>
+            </div>
+          )}
+
           {targetImageUrl && (
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px', backgroundColor: '#222', padding: '5px 10px', borderRadius: '8px' }}>
               <span style={{fontSize: '0.9rem'}}>Target:</span>
@@ -105,14 +179,41 @@ const App = () => {
             </div>
           )}
         </div>
+
+        {isPlaylist && (
+          <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '10px', marginTop: '10px' }}>
+            {keyframes.map((keyframe, i) => (
+              <button
+                key={i}
+                onClick={() => setKeyframeIndex(i)}
+                title={typeof keyframe === 'string' ? `Image ${i + 1}` : keyframe.text}
+                style={{ ...buttonStyle, minWidth: '40px', marginRight: 0, backgroundColor: i === shownKeyframe ? '#666' : '#333' }}
+              >
+                {i + 1}
+              </button>
+            ))}
+            <button onClick={() => setAutoplay(value => !value)} style={buttonStyle}>
+              {autoplay ? 'Stop Autoplay' : 'Autoplay'}
+            </button>
+            <button onClick={handleClearPlaylist} style={buttonStyle}>
+              Clear Playlist
+            </button>
+          </div>
+        )}
       </header>
       <main>
         <ImageParticleEffect 
-            key={sourceImageUrl}
+            // Entering or leaving the playlist starts over from the source
+            key={isPlaylist ? `playlist:${sourceImageUrl}` : sourceImageUrl}
             sourceImageUrl={sourceImageUrl} 
             targetImageUrl={targetImageUrl} 
+            targetText={targetText}
             morphDirection={morphDirection} 
             onMorphComplete={handleMorphComplete} 
+            keyframes={keyframes}
+            keyframeIndex={keyframeIndex}
+            playlist={{ autoplay, loop: true, holdTimes: [DEFAULT_HOLD_TIME] }}
+            onKeyframeChange={handleKeyframeChange}
         />
       </main>
     </div>
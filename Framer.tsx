@@ -1,8 +1,68 @@
 import React, { useState, useEffect, useCallback, useRef } from "react"
 import { addPropertyControls, ControlType } from "framer"
 import * as THREE from "three"
+import { SVGLoader } from "three/examples/jsm/loaders/SVGLoader.js"
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js"
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js"
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js"
+import { MeshSurfaceSampler } from "three/examples/jsm/math/MeshSurfaceSampler.js"
 
 type MorphDirection = "toTarget" | "toSource" | null
+// "cancelled" when another morph or scrubbing took over before the end
+type MorphStatus = "finished" | "cancelled"
+type EasingPreset =
+    "linear" | "easeIn" | "easeOut" | "easeInOut" | "easeInOutCubic"
+
+// Control points of a CSS-style cubic-bezier curve: [x1, y1, x2, y2]
+type CubicBezier = [number, number, number, number]
+
+interface SpringEasing {
+    stiffness: number
+    damping: number
+    mass: number
+}
+
+type Easing = EasingPreset | CubicBezier | SpringEasing
+
+interface TimingProps {
+    // Total morph length in ms
+    duration: number
+    // Length of each choreography phase in ms; phases left out share the rest
+    phaseDurations: number[]
+    easing: Easing
+}
+
+type StaggerMode =
+    | "none"
+    | "leftToRight"
+    | "topToBottom"
+    | "radial"
+    | "pointer"
+    | "random"
+    | "luminance"
+
+interface StaggerProps {
+    mode: StaggerMode
+    // Share of the morph the last particle waits before it sets off
+    spread: number
+    invert: boolean
+}
+
+type ColorSpace = "rgb" | "oklab" | "oklch" | "hsl"
+
+interface ColorTransitionProps {
+    space: ColorSpace
+    // Which way round the hue wheel oklch and hsl travel
+    huePath: "shorter" | "longer"
+    // Part of the morph the colors change over, independent of the move;
+    // an empty window switches colors at start
+    start: number
+    end: number
+}
+
+// A number or anything MotionValue-like that can be read every frame
+type ProgressSource = number | { get: () => number }
+
 interface Vec3 {
     x: number
     y: number
@@ -24,19 +84,186 @@ interface ForceProps {
     pushStrength: number
     particleSize: number
     particleDensity: number
+    useParticleCount: boolean
+    particleCount: number
+}
+
+type ColorGrade = "none" | "palette" | "duotone" | "gradient" | "posterize"
+
+type SizeSource = "none" | "luminance" | "alpha"
+
+interface SizingProps {
+    source: SizeSource
+    // Dark or transparent pixels become the largest particles
+    invert: boolean
+    // Scale at a value of 0, relative to particleSize
+    minScale: number
+    alphaOpacity: boolean
 }
 
 interface AppearanceProps {
     vibrancy: number
     exposure: number
+    grade: ColorGrade
+    // Nearest-color palette, or the stops of the gradient map
+    palette: string[]
+    shadowColor: string
+    highlightColor: string
+    posterizeLevels: number
+    hueShift: number
+    gradeAmount: number
+}
+
+type AssignmentMode = "spatial" | "index"
+
+type DepthSource = "none" | "luminance" | "alpha" | "map"
+
+interface DepthProps {
+    source: DepthSource
+    scale: number
+    invert: boolean
+}
+
+type FitMode = "contain" | "cover" | "stretch" | "world"
+
+interface FitProps {
+    resolution: number
+    mode: FitMode
+    worldWidth: number
+    worldHeight: number
+    sharedFrame: boolean
+}
+
+type SamplingMode = "grid" | "poisson" | "edges" | "dither" | "vector"
+
+interface SamplingProps {
+    mode: SamplingMode
+    edgeStrength: number
+    seed: number
+    stippleTone: "dark" | "light"
+    monochrome: boolean
+    inkColor: string
+    vectorFill: boolean
+    modelPoints: "surface" | "vertices"
+}
+
+type KeyMode = "none" | "chroma" | "luma" | "auto"
+
+interface KeyingProps {
+    alphaThreshold: number
+    mode: KeyMode
+    keyColor: string
+    lumaKey: "black" | "white"
+    tolerance: number
 }
 
-interface ImageParticleEffectProps {
+type TextAlign = "left" | "center" | "right"
+
+interface TextSource {
+    text: string
+    fontFamily: string
+    fontWeight: number
+    fontSize: number
+    lineHeight: number
+    align: TextAlign
+    color: string
+}
+
+interface VideoProps {
+    playing: boolean
+    loop: boolean
+    playbackRate: number
+    sampleRate: number
+}
+
+type FrameTransition = "physics" | "morph"
+
+interface SequenceProps {
+    playing: boolean
+    loop: boolean
+    frameDuration: number
+    transition: FrameTransition
+    transitionDuration: number
+}
+
+// One step of a keyframe playlist; a hold of 0 uses the playlist hold time
+interface PlaylistKeyframe {
+    type: "image" | "text"
+    image: string
+    text: string
+    hold: number
+}
+
+interface PlaylistProps {
+    autoplay: boolean
+    loop: boolean
+    holdTime: number
+}
+
+// Lifecycle callbacks, exposed as EventHandler controls in Framer
+interface MorphEventProps {
+    // Scrubbed morphs start when progress leaves an end, and finish or cancel
+    // when it reaches one
+    onMorphStart?: (direction: "toTarget" | "toSource") => void
+    // Named by the choreography, e.g. burst, gather and resolve
+    onMorphPhaseChange?: (phase: string, index: number) => void
+    // Share of the way to the destination, at most every PROGRESS_EVENT_INTERVAL
+    onMorphProgress?: (progress: number) => void
+    onMorphCancel?: (direction: "toTarget" | "toSource") => void
+}
+
+// Anything getImageParticleData can draw: images, rendered text or video
+type SourceImage = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement
+
+interface SamplingOptions {
+    density: number
+    count: number | null
+    sampling: SamplingProps
+    keying: KeyingProps
+    depth: DepthProps
+    depthMap: HTMLImageElement | null
+    fit: FitProps
+    // World-space size of the area the samples are fitted into
+    frame: { width: number; height: number }
+}
+
+// Canvas and points reused by sources sampled every frame, like video
+interface SampleBuffers {
+    canvas: HTMLCanvasElement
+    points: ParticleData[]
+    // Output of fitToCount when sampling to a particle budget
+    fitted: ParticleData[]
+}
+
+interface ImageParticleEffectProps extends MorphEventProps {
     sourceImageUrl: string
     targetImageUrl: string | null
+    sourceText: TextSource | null
+    targetText: TextSource | null
+    sourceVideoUrl: string | null
+    video: VideoProps
+    sourceFrameUrls: string[] | null
+    sequence: SequenceProps
+    sourceModelUrl: string | null
+    targetModelUrl: string | null
+    sourceDepthMapUrl: string | null
+    targetDepthMapUrl: string | null
     morphState: "source" | "target"
+    // Name of a built-in or registered choreography
+    choreography: string
+    timing: TimingProps
+    // When set, the morph follows this 0-1 progress instead of the clock
+    morphProgress: ProgressSource | null
+    stagger: StaggerProps
+    colorTransition: ColorTransitionProps
     morphDirection: MorphDirection
-    onMorphComplete: (direction: "toTarget" | "toSource") => void
+    onMorphComplete: (
+        direction: "toTarget" | "toSource",
+        status: MorphStatus
+    ) => void
+    // Called once new data for a side has been applied, or with loaded false
+    // when it failed to load or sampled to no points
+    onDataLoad?: (side: "source" | "target", loaded: boolean) => void
     cameraPosition: Vec3
     cameraRotation: Vec3
     objectPosition: Vec3
@@ -44,130 +271,2685 @@ interface ImageParticleEffectProps {
     sceneRotation: Vec3
     enablePushForce: boolean
     enableCollisions: boolean
+    assignment: AssignmentMode
+    depth: DepthProps
+    sampling: SamplingProps
+    keying: KeyingProps
+    fit: FitProps
+    sizing: SizingProps
     force: ForceProps
     lighting: LightingProps
     appearance: AppearanceProps
 }
 
-interface Particle {
-    id: number
-    currentPosition: THREE.Vector3
-    sourcePosition: THREE.Vector3
-    targetPosition: THREE.Vector3
-    velocity: THREE.Vector3
-    currentColor: THREE.Color
-    sourceColor: THREE.Color
-    targetColor: THREE.Color
-    sourceBaseColor: THREE.Color
-    targetBaseColor: THREE.Color
-    attractorPosition: THREE.Vector3
-    burstPosition: THREE.Vector3
-    sphereTargetPosition: THREE.Vector3
-    mouseBurstPosition: THREE.Vector3
-}
+/**
+ * Every particle's state in one typed array per field, so the loop runs and
+ * writes into the mesh without allocating. Vectors are stored as x, y, z runs
+ * and colors as r, g, b runs; particle i is at i * 3 in those.
+ */
+interface ParticleBuffers {
+    count: number
+    // Particles the arrays have room for; grown by reserveParticles
+    capacity: number
+    currentPosition: Float32Array
+    sourcePosition: Float32Array
+    targetPosition: Float32Array
+    velocity: Float32Array
+    attractorPosition: Float32Array
+    // Random offset in a unit cube, re-rolled for every morph
+    morphJitter: Float32Array
+    sphereTargetPosition: Float32Array
+    mouseBurstPosition: Float32Array
+    currentColor: Float32Array
+    sourceColor: Float32Array
+    targetColor: Float32Array
+    sourceBaseColor: Float32Array
+    targetBaseColor: Float32Array
+    // Scale relative to particleSize, and opacity from the source alpha
+    currentSize: Float32Array
+    sourceSize: Float32Array
+    targetSize: Float32Array
+    currentOpacity: Float32Array
+    sourceOpacity: Float32Array
+    targetOpacity: Float32Array
+    // Sampled alpha, kept so sizes and opacities can be re-derived
+    sourceAlpha: Float32Array
+    targetAlpha: Float32Array
+    // Share of the morph this particle waits before it sets off
+    morphDelay: Float32Array
+    // 0 on the side with fewer points, where the particle is invisible and
+    // only there to scale in from or dissolve into its neighbours
+    hasSource: Uint8Array
+    hasTarget: Uint8Array
+    // Sampled point each side shows or is fanned out around, and which copy
+    // of it the particle is, so data with the same points can be rewritten
+    // without pairing again
+    sourcePoint: Int32Array
+    targetPoint: Int32Array
+    sourceFan: Int32Array
+    targetFan: Int32Array
+}
+
+type VectorField =
+    | "currentPosition"
+    | "sourcePosition"
+    | "targetPosition"
+    | "velocity"
+    | "attractorPosition"
+    | "morphJitter"
+    | "sphereTargetPosition"
+    | "mouseBurstPosition"
+    | "currentColor"
+    | "sourceColor"
+    | "targetColor"
+    | "sourceBaseColor"
+    | "targetBaseColor"
+type ScalarField =
+    | "currentSize"
+    | "sourceSize"
+    | "targetSize"
+    | "currentOpacity"
+    | "sourceOpacity"
+    | "targetOpacity"
+    | "sourceAlpha"
+    | "targetAlpha"
+    | "morphDelay"
+type FlagField = "hasSource" | "hasTarget"
+type IndexField = "sourcePoint" | "targetPoint" | "sourceFan" | "targetFan"
+
+const VECTOR_FIELDS: VectorField[] = [
+    "currentPosition",
+    "sourcePosition",
+    "targetPosition",
+    "velocity",
+    "attractorPosition",
+    "morphJitter",
+    "sphereTargetPosition",
+    "mouseBurstPosition",
+    "currentColor",
+    "sourceColor",
+    "targetColor",
+    "sourceBaseColor",
+    "targetBaseColor",
+]
+const SCALAR_FIELDS: ScalarField[] = [
+    "currentSize",
+    "sourceSize",
+    "targetSize",
+    "currentOpacity",
+    "sourceOpacity",
+    "targetOpacity",
+    "sourceAlpha",
+    "targetAlpha",
+    "morphDelay",
+]
+const FLAG_FIELDS: FlagField[] = ["hasSource", "hasTarget"]
+const INDEX_FIELDS: IndexField[] = [
+    "sourcePoint",
+    "targetPoint",
+    "sourceFan",
+    "targetFan",
+]
+
+const createParticleBuffers = (capacity: number): ParticleBuffers => {
+    const particles = { count: 0, capacity } as ParticleBuffers
+    VECTOR_FIELDS.forEach(
+        (field) => (particles[field] = new Float32Array(capacity * 3))
+    )
+    SCALAR_FIELDS.forEach(
+        (field) => (particles[field] = new Float32Array(capacity))
+    )
+    FLAG_FIELDS.forEach(
+        (field) => (particles[field] = new Uint8Array(capacity))
+    )
+    INDEX_FIELDS.forEach(
+        (field) => (particles[field] = new Int32Array(capacity))
+    )
+    return particles
+}
+
+// Makes room for at least `count` particles, swapping in larger arrays in
+// place so anything holding the buffers sees them.
+const reserveParticles = (particles: ParticleBuffers, count: number) => {
+    if (count <= particles.capacity) return
+    const capacity = Math.max(count, Math.ceil(particles.capacity * 1.5))
+    VECTOR_FIELDS.forEach((field) => {
+        const array = new Float32Array(capacity * 3)
+        array.set(particles[field].subarray(0, particles.count * 3))
+        particles[field] = array
+    })
+    SCALAR_FIELDS.forEach((field) => {
+        const array = new Float32Array(capacity)
+        array.set(particles[field].subarray(0, particles.count))
+        particles[field] = array
+    })
+    FLAG_FIELDS.forEach((field) => {
+        const array = new Uint8Array(capacity)
+        array.set(particles[field].subarray(0, particles.count))
+        particles[field] = array
+    })
+    INDEX_FIELDS.forEach((field) => {
+        const array = new Int32Array(capacity)
+        array.set(particles[field].subarray(0, particles.count))
+        particles[field] = array
+    })
+    particles.capacity = capacity
+}
+
+const copyParticle = (particles: ParticleBuffers, from: number, to: number) => {
+    VECTOR_FIELDS.forEach((field) =>
+        particles[field].copyWithin(to * 3, from * 3, from * 3 + 3)
+    )
+    SCALAR_FIELDS.forEach(
+        (field) => (particles[field][to] = particles[field][from])
+    )
+    FLAG_FIELDS.forEach(
+        (field) => (particles[field][to] = particles[field][from])
+    )
+    INDEX_FIELDS.forEach(
+        (field) => (particles[field][to] = particles[field][from])
+    )
+}
+
+interface ParticleData {
+    position: THREE.Vector3
+    color: THREE.Color
+    alpha: number
+}
+
+const easeInOutCubic = (t: number): number =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+
+const MIN_MORPH_DURATION = 50
+const PROGRESS_EVENT_INTERVAL = 100
+
+// OKLab from linear sRGB, after Björn Ottosson's reference implementation
+const linearToOklab = (color: THREE.Color): [number, number, number] => {
+    const l = Math.cbrt(
+        0.4122214708 * color.r + 0.5363325363 * color.g + 0.0514459929 * color.b
+    )
+    const m = Math.cbrt(
+        0.2119034982 * color.r + 0.6806995451 * color.g + 0.1073969566 * color.b
+    )
+    const s = Math.cbrt(
+        0.0883024619 * color.r + 0.2817188376 * color.g + 0.6299787005 * color.b
+    )
+    return [
+        0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    ]
+}
+
+const oklabToLinear = (
+    out: THREE.Color,
+    L: number,
+    a: number,
+    b: number
+): THREE.Color => {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3)
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3)
+    const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3)
+    return out.setRGB(
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+    )
+}
+
+// Interpolates hues given in turns, the short or the long way round
+const mixHue = (
+    from: number,
+    to: number,
+    t: number,
+    path: "shorter" | "longer"
+): number => {
+    let delta = ((((to - from) % 1) + 1.5) % 1) - 0.5
+    if (path === "longer" && delta !== 0) delta -= Math.sign(delta)
+    return (((from + delta * t) % 1) + 1) % 1
+}
+
+const hslFrom = { h: 0, s: 0, l: 0 }
+const hslTo = { h: 0, s: 0, l: 0 }
+
+/**
+ * Mixes two linear colors in the given space. Hues of grays are undefined,
+ * so a gray end borrows the other end's hue instead of sweeping the wheel.
+ */
+const mixColors = (
+    out: THREE.Color,
+    from: THREE.Color,
+    to: THREE.Color,
+    t: number,
+    space: ColorSpace,
+    huePath: "shorter" | "longer"
+): THREE.Color => {
+    if (space === "rgb") return out.copy(from).lerp(to, t)
+
+    if (space === "hsl") {
+        from.getHSL(hslFrom, THREE.SRGBColorSpace)
+        to.getHSL(hslTo, THREE.SRGBColorSpace)
+        const fromHue = hslFrom.s < 1e-4 ? hslTo.h : hslFrom.h
+        const toHue = hslTo.s < 1e-4 ? hslFrom.h : hslTo.h
+        return out.setHSL(
+            mixHue(fromHue, toHue, t, huePath),
+            THREE.MathUtils.lerp(hslFrom.s, hslTo.s, t),
+            THREE.MathUtils.lerp(hslFrom.l, hslTo.l, t),
+            THREE.SRGBColorSpace
+        )
+    }
+
+    const [fromL, fromA, fromB] = linearToOklab(from)
+    const [toL, toA, toB] = linearToOklab(to)
+    const L = THREE.MathUtils.lerp(fromL, toL, t)
+    if (space === "oklab") {
+        return oklabToLinear(
+            out,
+            L,
+            THREE.MathUtils.lerp(fromA, toA, t),
+            THREE.MathUtils.lerp(fromB, toB, t)
+        )
+    }
+
+    const fromChroma = Math.hypot(fromA, fromB)
+    const toChroma = Math.hypot(toA, toB)
+    const turn = Math.PI * 2
+    let fromHue = Math.atan2(fromB, fromA) / turn
+    let toHue = Math.atan2(toB, toA) / turn
+    if (fromChroma < 1e-4) fromHue = toHue
+    if (toChroma < 1e-4) toHue = fromHue
+    const hue = mixHue(fromHue, toHue, t, huePath) * turn
+    const chroma = THREE.MathUtils.lerp(fromChroma, toChroma, t)
+    return oklabToLinear(out, L, chroma * Math.cos(hue), chroma * Math.sin(hue))
+}
+
+/**
+ * Builds a CSS-style cubic-bezier easing. x is solved with Newton's method,
+ * falling back to bisection where the curve is too flat for it.
+ */
+const cubicBezier = (x1: number, y1: number, x2: number, y2: number) => {
+    // x(t) is only monotonic while both x control points stay within 0-1
+    const ax = THREE.MathUtils.clamp(x1, 0, 1)
+    const bx = THREE.MathUtils.clamp(x2, 0, 1)
+    const sample = (a: number, b: number, t: number) =>
+        3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t
+    const slope = (a: number, b: number, t: number) =>
+        3 * a * (1 - t) * (1 - t) +
+        6 * (b - a) * (1 - t) * t +
+        3 * (1 - b) * t * t
+
+    return (x: number): number => {
+        if (x <= 0) return 0
+        if (x >= 1) return 1
+        let t = x
+        for (let i = 0; i < 8; i++) {
+            const error = sample(ax, bx, t) - x
+            if (Math.abs(error) < 1e-6) return sample(y1, y2, t)
+            const d = slope(ax, bx, t)
+            if (Math.abs(d) < 1e-6) break
+            t = THREE.MathUtils.clamp(t - error / d, 0, 1)
+        }
+        let low = 0
+        let high = 1
+        t = x
+        for (let i = 0; i < 30; i++) {
+            const value = sample(ax, bx, t)
+            if (Math.abs(value - x) < 1e-6) break
+            if (value < x) low = t
+            else high = t
+            t = (low + high) / 2
+        }
+        return sample(y1, y2, t)
+    }
+}
+
+/**
+ * Step response of a damped spring played out over `duration` ms, so stiff
+ * or lightly damped springs overshoot before settling. Overdamped springs are
+ * treated as critically damped.
+ */
+const springEasing = (spring: SpringEasing, duration: number) => {
+    const stiffness = Math.max(spring.stiffness, 1e-3)
+    const mass = Math.max(spring.mass, 1e-3)
+    const omega = Math.sqrt(stiffness / mass)
+    const zeta = Math.max(spring.damping, 0) / (2 * Math.sqrt(stiffness * mass))
+    return (t: number): number => {
+        const time = (t * duration) / 1000
+        if (zeta < 1) {
+            const omegaD = omega * Math.sqrt(1 - zeta * zeta)
+            return (
+                1 -
+                Math.exp(-zeta * omega * time) *
+                    (Math.cos(omegaD * time) +
+                        ((zeta * omega) / omegaD) * Math.sin(omegaD * time))
+            )
+        }
+        return 1 - Math.exp(-omega * time) * (1 + omega * time)
+    }
+}
+
+const easingPresets: Record<EasingPreset, (t: number) => number> = {
+    linear: (t) => t,
+    easeIn: cubicBezier(0.42, 0, 1, 1),
+    easeOut: cubicBezier(0, 0, 0.58, 1),
+    easeInOut: cubicBezier(0.42, 0, 0.58, 1),
+    easeInOutCubic,
+}
+
+const createEasing = (easing: Easing, duration: number) => {
+    if (Array.isArray(easing)) return cubicBezier(...easing)
+    if (typeof easing === "object") return springEasing(easing, duration)
+    return easingPresets[easing] ?? easeInOutCubic
+}
+
+/**
+ * Fits explicit phase lengths into the total duration. Listed phases are
+ * scaled down when they would overrun it, and the phases left out share what
+ * remains in the choreography's own proportions.
+ */
+const resolvePhaseDurations = (
+    weights: number[],
+    phaseDurations: number[],
+    duration: number
+): number[] => {
+    const listed = weights.map((_, i) =>
+        i < phaseDurations.length ? Math.max(0, phaseDurations[i] || 0) : null
+    )
+    const listedTotal = listed.reduce<number>((sum, d) => sum + (d ?? 0), 0)
+    const freeWeight = weights.reduce(
+        (sum, weight, i) => sum + (listed[i] === null ? weight : 0),
+        0
+    )
+    if (listedTotal === 0 && freeWeight === 0) {
+        // Everything listed as zero: fall back to the choreography's shape
+        const total = weights.reduce((sum, weight) => sum + weight, 0)
+        return weights.map((weight) => (duration * weight) / total)
+    }
+    // With nothing left to fill the gap, listed phases stretch to the total
+    const scale =
+        listedTotal > duration || freeWeight === 0 ? duration / listedTotal : 1
+    const remaining = duration - listedTotal * scale
+    return weights.map((weight, i) => {
+        const length = listed[i]
+        if (length !== null) return length * scale
+        return (remaining * weight) / freeWeight
+    })
+}
+
+const applyVibrancy = (color: THREE.Color, vibrancy: number): THREE.Color => {
+    const hsl = { h: 0, s: 0, l: 0 }
+    color.getHSL(hsl)
+    hsl.s = Math.min(1, hsl.s * vibrancy)
+    color.setHSL(hsl.h, hsl.s, hsl.l)
+    return color
+}
+
+// Parsed CSS colors, in linear and sRGB space. Never mutate the results.
+const cssColorCache = new Map<
+    string,
+    { linear: THREE.Color; srgb: THREE.Color }
+>()
+
+const getCssColor = (value: string) => {
+    let color = cssColorCache.get(value)
+    if (!color) {
+        const linear = new THREE.Color(value)
+        color = { linear, srgb: linear.clone().convertLinearToSRGB() }
+        cssColorCache.set(value, color)
+    }
+    return color
+}
+
+// The grade settings that can't be interpolated and fade through zero instead
+const getGradeKey = (appearance: AppearanceProps): string =>
+    JSON.stringify([
+        appearance.grade,
+        appearance.palette,
+        appearance.shadowColor,
+        appearance.highlightColor,
+        appearance.posterizeLevels,
+    ])
+
+/**
+ * Grades a linear color in place: vibrancy, then hue shift, then the grade
+ * mixed in by gradeAmount. Palette distances, luminance and posterize levels
+ * are measured on sRGB values so they match what ends up on screen.
+ */
+const applyAppearance = (
+    color: THREE.Color,
+    appearance: AppearanceProps
+): THREE.Color => {
+    applyVibrancy(color, appearance.vibrancy)
+    if (appearance.hueShift !== 0) {
+        color.offsetHSL(appearance.hueShift / 360, 0, 0)
+    }
+    if (appearance.grade === "none" || appearance.gradeAmount <= 0) {
+        return color
+    }
+
+    const srgb = color.clone().convertLinearToSRGB()
+    const graded = color.clone()
+    const stops = appearance.palette.filter(Boolean).map(getCssColor)
+    const lightness = luminance(srgb.r * 255, srgb.g * 255, srgb.b * 255)
+
+    if (appearance.grade === "palette" && stops.length > 0) {
+        let nearest = stops[0]
+        let nearestDistance = Infinity
+        for (const stop of stops) {
+            const distance =
+                (stop.srgb.r - srgb.r) ** 2 +
+                (stop.srgb.g - srgb.g) ** 2 +
+                (stop.srgb.b - srgb.b) ** 2
+            if (distance < nearestDistance) {
+                nearest = stop
+                nearestDistance = distance
+            }
+        }
+        graded.copy(nearest.linear)
+    } else if (appearance.grade === "duotone") {
+        graded.lerpColors(
+            getCssColor(appearance.shadowColor).linear,
+            getCssColor(appearance.highlightColor).linear,
+            lightness
+        )
+    } else if (appearance.grade === "gradient" && stops.length > 0) {
+        const position = lightness * (stops.length - 1)
+        const index = Math.min(stops.length - 2, Math.floor(position))
+        if (index < 0) {
+            graded.copy(stops[0].linear)
+        } else {
+            graded.lerpColors(
+                stops[index].linear,
+                stops[index + 1].linear,
+                position - index
+            )
+        }
+    } else if (appearance.grade === "posterize") {
+        const steps = Math.max(1, Math.round(appearance.posterizeLevels) - 1)
+        graded
+            .setRGB(
+                Math.round(srgb.r * steps) / steps,
+                Math.round(srgb.g * steps) / steps,
+                Math.round(srgb.b * steps) / steps
+            )
+            .convertSRGBToLinear()
+    }
+    return color.lerp(graded, appearance.gradeAmount)
+}
+
+// Scale of a particle relative to particleSize, from its ungraded source pixel.
+const getSizeFactor = (
+    color: THREE.Color,
+    alpha: number,
+    sizing: SizingProps
+): number => {
+    if (sizing.source === "none") return 1
+    let value = alpha
+    if (sizing.source === "luminance") {
+        const srgb = color.clone().convertLinearToSRGB()
+        value = luminance(srgb.r * 255, srgb.g * 255, srgb.b * 255)
+    }
+    if (sizing.invert) value = 1 - value
+    return sizing.minScale + (1 - sizing.minScale) * value
+}
+
+// Opacity of a shown particle; sampled alpha only shows when asked for.
+const getOpacity = (alpha: number, sizing: SizingProps) =>
+    sizing.alphaOpacity ? alpha : 1
+
+// Shows one side's color, size and opacity on every particle right away.
+const showParticleStyle = (
+    particles: ParticleBuffers,
+    side: "source" | "target"
+) => {
+    const { count } = particles
+    const isSource = side === "source"
+    particles.currentColor.set(
+        (isSource ? particles.sourceColor : particles.targetColor).subarray(
+            0,
+            count * 3
+        )
+    )
+    particles.currentSize.set(
+        (isSource ? particles.sourceSize : particles.targetSize).subarray(
+            0,
+            count
+        )
+    )
+    particles.currentOpacity.set(
+        (isSource ? particles.sourceOpacity : particles.targetOpacity).subarray(
+            0,
+            count
+        )
+    )
+}
+
+// Settles every particle on one side, showing its style right away.
+const showSide = (particles: ParticleBuffers, side: "source" | "target") => {
+    particles.attractorPosition.set(
+        (side === "source"
+            ? particles.sourcePosition
+            : particles.targetPosition
+        ).subarray(0, particles.count * 3)
+    )
+    showParticleStyle(particles, side)
+}
+
+// Standard material whose alpha is multiplied by a per-instance opacity.
+const createParticleMaterial = () => {
+    const material = new THREE.MeshStandardMaterial()
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader = shader.vertexShader
+            .replace(
+                "#include <common>",
+                "#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;"
+            )
+            .replace(
+                "#include <begin_vertex>",
+                "#include <begin_vertex>\nvInstanceOpacity = instanceOpacity;"
+            )
+        shader.fragmentShader = shader.fragmentShader
+            .replace(
+                "#include <common>",
+                "#include <common>\nvarying float vInstanceOpacity;"
+            )
+            .replace(
+                "#include <opaque_fragment>",
+                "diffuseColor.a *= vInstanceOpacity;\n#include <opaque_fragment>"
+            )
+    }
+    return material
+}
+
+// Instanced mesh with room for `capacity` particles, showing `particles`.
+const createParticleMesh = (particles: ParticleBuffers, capacity: number) => {
+    const geometry = new THREE.SphereGeometry(0.75, 8, 6)
+    geometry.setAttribute(
+        "instanceOpacity",
+        new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1)
+    )
+    const mesh = new THREE.InstancedMesh(
+        geometry,
+        createParticleMaterial(),
+        capacity
+    )
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(
+        new Float32Array(capacity * 3),
+        3
+    )
+    mesh.count = particles.count
+    writeParticleInstances(particles, mesh, 1, true)
+    return mesh
+}
+
+/**
+ * Writes every particle straight into the mesh: a scale and translation
+ * matrix per instance, and colors and opacities when `withStyle` is set.
+ */
+const writeParticleInstances = (
+    particles: ParticleBuffers,
+    mesh: THREE.InstancedMesh,
+    particleSize: number,
+    withStyle: boolean
+) => {
+    const { count, currentPosition, currentSize } = particles
+    const matrices = mesh.instanceMatrix.array
+    for (let i = 0; i < count; i++) {
+        const m = i * 16
+        const j = i * 3
+        const scale = particleSize * currentSize[i]
+        matrices.fill(0, m, m + 16)
+        matrices[m] = scale
+        matrices[m + 5] = scale
+        matrices[m + 10] = scale
+        matrices[m + 12] = currentPosition[j]
+        matrices[m + 13] = currentPosition[j + 1]
+        matrices[m + 14] = currentPosition[j + 2]
+        matrices[m + 15] = 1
+    }
+    mesh.instanceMatrix.needsUpdate = true
+    if (!withStyle) return
+
+    const opacities = mesh.geometry.getAttribute("instanceOpacity")
+    opacities.array.set(particles.currentOpacity.subarray(0, count))
+    opacities.needsUpdate = true
+    mesh.instanceColor!.array.set(particles.currentColor.subarray(0, count * 3))
+    mesh.instanceColor!.needsUpdate = true
+}
+
+const disposeParticleMesh = (mesh: THREE.InstancedMesh) => {
+    mesh.removeFromParent()
+    mesh.geometry.dispose()
+    if (mesh.material instanceof THREE.Material) {
+        mesh.material.dispose()
+    }
+    mesh.dispose()
+}
+
+// Spatial hash kept between frames: particle indices sorted by bucket, with
+// bucket b holding sorted[starts[b]] up to sorted[starts[b + 1]]
+const collisionGrid = {
+    starts: new Int32Array(1),
+    sorted: new Int32Array(0),
+    // Buckets already searched around the current particle
+    visited: new Int32Array(27),
+}
+
+// Bucket of a grid cell; neighbouring cells may share one
+const getCellBucket = (x: number, y: number, z: number, mask: number) =>
+    (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) &
+    mask
+
+const handleCollisions = (particles: ParticleBuffers, particleSize: number) => {
+    const { count, currentPosition, velocity } = particles
+    if (count < 2 || particleSize <= 0) return
+
+    const collisionDist = particleSize * 2
+    const collisionDistSq = collisionDist * collisionDist
+
+    const gridCellSize = collisionDist
+    const bucketCount = 2 ** Math.ceil(Math.log2(count * 2))
+    const mask = bucketCount - 1
+    if (collisionGrid.starts.length < bucketCount + 1) {
+        collisionGrid.starts = new Int32Array(bucketCount + 1)
+    }
+    if (collisionGrid.sorted.length < count) {
+        collisionGrid.sorted = new Int32Array(count)
+    }
+    const { starts, sorted, visited } = collisionGrid
+    const getBucket = (i: number, dx = 0, dy = 0, dz = 0) =>
+        getCellBucket(
+            Math.floor(currentPosition[i * 3] / gridCellSize) + dx,
+            Math.floor(currentPosition[i * 3 + 1] / gridCellSize) + dy,
+            Math.floor(currentPosition[i * 3 + 2] / gridCellSize) + dz,
+            mask
+        )
+
+    // Counting sort into buckets; filling advances each start to the next
+    // bucket's, so they're shifted back afterwards
+    starts.fill(0, 0, bucketCount + 1)
+    for (let i = 0; i < count; i++) starts[getBucket(i) + 1]++
+    for (let b = 1; b <= bucketCount; b++) starts[b] += starts[b - 1]
+    for (let i = 0; i < count; i++) sorted[starts[getBucket(i)]++] = i
+    starts.copyWithin(1, 0, bucketCount)
+    starts[0] = 0
+    const hasVisited = (bucket: number, visitedCount: number) => {
+        for (let i = 0; i < visitedCount; i++) {
+            if (visited[i] === bucket) return true
+        }
+        return false
+    }
+
+    for (let i = 0; i < count; i++) {
+        const a = i * 3
+        let visitedCount = 0
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dz = -1; dz <= 1; dz++) {
+                    const bucket = getBucket(i, dx, dy, dz)
+                    if (hasVisited(bucket, visitedCount)) continue
+                    visited[visitedCount++] = bucket
+                    for (let k = starts[bucket]; k < starts[bucket + 1]; k++) {
+                        const j = sorted[k]
+                        if (i >= j) continue
+                        const b = j * 3
+
+                        const offsetX = currentPosition[a] - currentPosition[b]
+                        const offsetY =
+                            currentPosition[a + 1] - currentPosition[b + 1]
+                        const offsetZ =
+                            currentPosition[a + 2] - currentPosition[b + 2]
+                        const distanceSq =
+                            offsetX * offsetX +
+                            offsetY * offsetY +
+                            offsetZ * offsetZ
+                        if (distanceSq > 0 && distanceSq < collisionDistSq) {
+                            const distance = Math.sqrt(distanceSq)
+                            const overlap = (collisionDist - distance) * 0.5
+                            const inverseDistance = 1 / distance
+                            const normalX = offsetX * inverseDistance
+                            const normalY = offsetY * inverseDistance
+                            const normalZ = offsetZ * inverseDistance
+
+                            currentPosition[a] += normalX * overlap
+                            currentPosition[a + 1] += normalY * overlap
+                            currentPosition[a + 2] += normalZ * overlap
+                            currentPosition[b] -= normalX * overlap
+                            currentPosition[b + 1] -= normalY * overlap
+                            currentPosition[b + 2] -= normalZ * overlap
+
+                            const velocityAlongNormal =
+                                (velocity[a] - velocity[b]) * normalX +
+                                (velocity[a + 1] - velocity[b + 1]) * normalY +
+                                (velocity[a + 2] - velocity[b + 2]) * normalZ
+                            if (velocityAlongNormal > 0) continue
+
+                            const restitution = 0.5
+                            const impulse =
+                                -(1 + restitution) * velocityAlongNormal * 0.5
+                            velocity[a] += normalX * impulse
+                            velocity[a + 1] += normalY * impulse
+                            velocity[a + 2] += normalZ * impulse
+                            velocity[b] -= normalX * impulse
+                            velocity[b + 1] -= normalY * impulse
+                            velocity[b + 2] -= normalZ * impulse
+                        }
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Pushes particles away from `pointer` when one is given, then springs every
+ * particle back towards its attractor.
+ */
+const stepParticlePhysics = (
+    particles: ParticleBuffers,
+    { returnStrength, damping, pushRadius, pushStrength }: ForceProps,
+    pointer: THREE.Vector3 | null
+) => {
+    const { currentPosition, velocity, attractorPosition } = particles
+    const pushRadiusSq = pushRadius * pushRadius
+    for (let i = 0; i < particles.count; i++) {
+        const j = i * 3
+        // One pointer against every particle; bucketing them into a grid
+        // first costs as much as the test it would save
+        if (pointer) {
+            const offsetX = currentPosition[j] - pointer.x
+            const offsetY = currentPosition[j + 1] - pointer.y
+            const offsetZ = currentPosition[j + 2] - pointer.z
+            const distanceSq =
+                offsetX * offsetX + offsetY * offsetY + offsetZ * offsetZ
+            if (distanceSq > 1e-6 && distanceSq < pushRadiusSq) {
+                const distance = Math.sqrt(distanceSq)
+                const strength =
+                    (((pushRadius - distance) / pushRadius) * pushStrength) /
+                    distance
+                velocity[j] += offsetX * strength
+                velocity[j + 1] += offsetY * strength
+                velocity[j + 2] += offsetZ * strength
+            }
+        }
+        for (let k = j; k < j + 3; k++) {
+            velocity[k] =
+                (velocity[k] +
+                    (attractorPosition[k] - currentPosition[k]) *
+                        returnStrength) *
+                damping
+            currentPosition[k] += velocity[k]
+        }
+    }
+}
+
+const loadOptionalImage = (
+    url: string | null,
+    onLoad: (image: HTMLImageElement | null) => void
+) => {
+    if (!url) {
+        onLoad(null)
+        return
+    }
+    const loader = new THREE.ImageLoader()
+    loader.setCrossOrigin("Anonymous")
+    loader.load(url, onLoad, undefined, () => onLoad(null))
+}
+
+// Rasterizes multi-line text onto a canvas sized to fit it.
+const renderText = (source: TextSource): HTMLCanvasElement => {
+    const canvas = document.createElement("canvas")
+    const context = canvas.getContext("2d")
+    if (!context) return canvas
+
+    const font = `${source.fontWeight} ${source.fontSize}px ${source.fontFamily}`
+    const lines = source.text.split("\n")
+    const lineHeight = source.fontSize * source.lineHeight
+    const padding = Math.ceil(source.fontSize * 0.25)
+
+    context.font = font
+    const textWidth = Math.max(
+        1,
+        ...lines.map((line) => context.measureText(line).width)
+    )
+    canvas.width = Math.ceil(textWidth) + padding * 2
+    canvas.height = Math.ceil(lineHeight * lines.length) + padding * 2
+
+    // Resizing the canvas resets the context state
+    context.font = font
+    context.fillStyle = source.color
+    context.textAlign = source.align
+    context.textBaseline = "middle"
+    const x =
+        source.align === "left"
+            ? padding
+            : source.align === "right"
+              ? canvas.width - padding
+              : canvas.width / 2
+    lines.forEach((line, i) =>
+        context.fillText(line, x, padding + lineHeight * (i + 0.5))
+    )
+    return canvas
+}
+
+// Loads the source and its optional depth map; the image is null when the
+// source failed to load
+const loadWithDepthMap = (
+    source: string | TextSource | SourceImage,
+    depthMapUrl: string | null,
+    onLoad: (
+        image: SourceImage | null,
+        depthMap: HTMLImageElement | null
+    ) => void
+) => {
+    const withDepthMap = (image: SourceImage) =>
+        loadOptionalImage(depthMapUrl, (depthMap) => onLoad(image, depthMap))
+
+    // Videos and decoded frames are already loaded
+    if (source instanceof HTMLElement) {
+        withDepthMap(source)
+        return
+    }
+
+    if (typeof source !== "string") {
+        // Wait for web fonts so the first render doesn't use a fallback
+        const font = `${source.fontWeight} ${source.fontSize}px ${source.fontFamily}`
+        document.fonts
+            .load(font)
+            .catch(() => [])
+            .then(() => withDepthMap(renderText(source)))
+        return
+    }
+
+    const loader = new THREE.ImageLoader()
+    loader.setCrossOrigin("Anonymous")
+    loader.load(source, withDepthMap, undefined, () => onLoad(null, null))
+}
+
+const isGifUrl = (url: string): boolean =>
+    /^data:image\/gif/i.test(url) || /\.gif($|[?#])/i.test(url)
+
+/**
+ * Decodes every frame of an animated GIF onto its own canvas with the
+ * WebCodecs ImageDecoder, along with each frame's delay in milliseconds.
+ * Browsers without ImageDecoder get the first frame only.
+ */
+const decodeGifFrames = (
+    url: string,
+    onLoad: (frames: SourceImage[], durations: number[]) => void
+) => {
+    if (!("ImageDecoder" in window)) {
+        loadOptionalImage(url, (image) =>
+            image ? onLoad([image], [0]) : onLoad([], [])
+        )
+        return
+    }
+
+    fetch(url)
+        .then((response) => response.arrayBuffer())
+        .then(async (data) => {
+            const decoder = new ImageDecoder({ data, type: "image/gif" })
+            await decoder.tracks.ready
+            const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 0
+            const frames: SourceImage[] = []
+            const durations: number[] = []
+            for (let i = 0; i < frameCount; i++) {
+                // Decoded frames are already composited onto the canvas
+                const { image } = await decoder.decode({ frameIndex: i })
+                const canvas = document.createElement("canvas")
+                canvas.width = image.displayWidth
+                canvas.height = image.displayHeight
+                canvas.getContext("2d")!.drawImage(image, 0, 0)
+                frames.push(canvas)
+                durations.push((image.duration ?? 0) / 1000)
+                image.close()
+            }
+            decoder.close()
+            onLoad(frames, durations)
+        })
+        .catch(() => onLoad([], []))
+}
+
+// Loads an ordered list of images and GIFs into one flat list of frames.
+// A duration of 0 means "use the sequence's frame duration".
+const loadFrameSequence = (
+    urls: string[],
+    onLoad: (frames: SourceImage[], durations: number[]) => void
+) => {
+    Promise.all(
+        urls.map(
+            (url) =>
+                new Promise<[SourceImage[], number[]]>((resolve) => {
+                    if (isGifUrl(url)) {
+                        decodeGifFrames(url, (frames, durations) =>
+                            resolve([frames, durations])
+                        )
+                    } else {
+                        loadOptionalImage(url, (image) =>
+                            resolve(image ? [[image], [0]] : [[], []])
+                        )
+                    }
+                })
+        )
+    ).then((results) =>
+        onLoad(
+            results.flatMap(([frames]) => frames),
+            results.flatMap(([, durations]) => durations)
+        )
+    )
+}
+
+const luminance = (r: number, g: number, b: number): number =>
+    (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255
+
+// Averages the opaque pixels of a small patch in each corner of the image.
+const detectBackgroundColor = (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    alphaThreshold: number
+): [number, number, number] | null => {
+    const patch = Math.max(1, Math.floor(Math.min(width, height) * 0.02))
+    const sum = [0, 0, 0]
+    let count = 0
+    for (const [x0, y0] of [
+        [0, 0],
+        [width - patch, 0],
+        [0, height - patch],
+        [width - patch, height - patch],
+    ]) {
+        for (let y = y0; y < y0 + patch; y++) {
+            for (let x = x0; x < x0 + patch; x++) {
+                const i = (y * width + x) * 4
+                if (pixels[i + 3] <= alphaThreshold) continue
+                sum[0] += pixels[i]
+                sum[1] += pixels[i + 1]
+                sum[2] += pixels[i + 2]
+                count++
+            }
+        }
+    }
+    if (count === 0) return null
+    return [sum[0] / count, sum[1] / count, sum[2] / count]
+}
+
+/**
+ * Builds the test deciding which pixels become particles. Besides the alpha
+ * threshold, opaque images (JPEGs) can drop their background with a chroma
+ * key, a luminance key, or a key colour averaged from the four corners.
+ */
+const createPixelFilter = (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    keying: KeyingProps
+): ((pixel: number) => boolean) => {
+    const { alphaThreshold, mode, tolerance } = keying
+    const isOpaque = (pixel: number) => pixels[pixel * 4 + 3] > alphaThreshold
+
+    if (mode === "luma") {
+        return (pixel) => {
+            if (!isOpaque(pixel)) return false
+            const i = pixel * 4
+            const l = luminance(pixels[i], pixels[i + 1], pixels[i + 2])
+            return keying.lumaKey === "black"
+                ? l > tolerance
+                : l < 1 - tolerance
+        }
+    }
+
+    let key: [number, number, number] | null = null
+    if (mode === "chroma") {
+        // Compare in the sRGB bytes of the image data
+        const srgb = new THREE.Color(keying.keyColor).convertLinearToSRGB()
+        key = [srgb.r * 255, srgb.g * 255, srgb.b * 255]
+    } else if (mode === "auto") {
+        key = detectBackgroundColor(pixels, width, height, alphaThreshold)
+    }
+    if (!key) return isOpaque
+
+    // Tolerance is a fraction of the largest possible RGB distance
+    const maxDistanceSq = (tolerance * 255) ** 2 * 3
+    const [kr, kg, kb] = key
+    return (pixel) => {
+        if (!isOpaque(pixel)) return false
+        const i = pixel * 4
+        const distanceSq =
+            (pixels[i] - kr) ** 2 +
+            (pixels[i + 1] - kg) ** 2 +
+            (pixels[i + 2] - kb) ** 2
+        return distanceSq > maxDistanceSq
+    }
+}
+
+// Seeded PRNG (mulberry32) so that random sampling is reproducible
+const createRandom = (seed: number) => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+// Samplers return the indices (y * width + x) of the chosen pixels.
+const sampleGrid = (
+    width: number,
+    height: number,
+    spacing: number,
+    accept: (pixel: number) => boolean
+): number[] => {
+    const samples: number[] = []
+    for (let y = 0; y < height; y += spacing) {
+        for (let x = 0; x < width; x += spacing) {
+            const pixel = y * width + x
+            if (accept(pixel)) samples.push(pixel)
+        }
+    }
+    return samples
+}
+
+/**
+ * Blue-noise sampling: pixels are visited in random order and kept when no
+ * earlier sample lies within `radius`. Unlike growing outwards from a seed
+ * point, this reaches every disconnected opaque region of the image.
+ */
+const samplePoissonDisk = (
+    width: number,
+    height: number,
+    radius: number,
+    accept: (pixel: number) => boolean,
+    random: () => number
+): number[] => {
+    const cellSize = radius / Math.SQRT2
+    const cols = Math.ceil(width / cellSize)
+    const rows = Math.ceil(height / cellSize)
+    const grid = new Int32Array(cols * rows).fill(-1)
+    const radiusSq = radius * radius
+
+    const order = new Uint32Array(width * height)
+    for (let i = 0; i < order.length; i++) order[i] = i
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        const t = order[i]
+        order[i] = order[j]
+        order[j] = t
+    }
+
+    const samples: number[] = []
+    for (const pixel of order) {
+        if (!accept(pixel)) continue
+        const x = pixel % width
+        const y = (pixel - x) / width
+        const cellX = Math.floor(x / cellSize)
+        const cellY = Math.floor(y / cellSize)
+
+        let isFree = true
+        const maxY = Math.min(rows - 1, cellY + 2)
+        const maxX = Math.min(cols - 1, cellX + 2)
+        for (let gy = Math.max(0, cellY - 2); isFree && gy <= maxY; gy++) {
+            for (let gx = Math.max(0, cellX - 2); gx <= maxX; gx++) {
+                const other = grid[gy * cols + gx]
+                if (other < 0) continue
+                const ox = other % width
+                const oy = (other - ox) / width
+                if ((ox - x) ** 2 + (oy - y) ** 2 < radiusSq) {
+                    isFree = false
+                    break
+                }
+            }
+        }
+        if (!isFree) continue
+
+        grid[cellY * cols + cellX] = pixel
+        samples.push(pixel)
+    }
+    return samples.sort((a, b) => a - b)
+}
+
+/**
+ * Importance sampling weighted by Sobel gradient magnitude. `strength`
+ * blends from uniform (0) to edges only (1). The budget matches what the
+ * grid sampler would produce at the same spacing.
+ */
+const sampleEdges = (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    spacing: number,
+    strength: number,
+    accept: (pixel: number) => boolean,
+    random: () => number
+): number[] => {
+    // Luminance is premultiplied by alpha so silhouettes count as edges
+    const lum = new Float32Array(width * height)
+    for (let i = 0; i < lum.length; i++) {
+        lum[i] =
+            (luminance(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]) *
+                pixels[i * 4 + 3]) /
+            255
+    }
+
+    const magnitude = new Float32Array(width * height)
+    let maxMagnitude = 0
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x
+            const gx =
+                lum[i - width + 1] +
+                2 * lum[i + 1] +
+                lum[i + width + 1] -
+                lum[i - width - 1] -
+                2 * lum[i - 1] -
+                lum[i + width - 1]
+            const gy =
+                lum[i + width - 1] +
+                2 * lum[i + width] +
+                lum[i + width + 1] -
+                lum[i - width - 1] -
+                2 * lum[i - width] -
+                lum[i - width + 1]
+            magnitude[i] = Math.hypot(gx, gy)
+            maxMagnitude = Math.max(maxMagnitude, magnitude[i])
+        }
+    }
+
+    // Weighted sampling without replacement (Efraimidis-Spirakis): every
+    // candidate draws the key random^(1 / weight) and the largest keys win.
+    const candidates: number[] = []
+    const keys: number[] = []
+    for (let i = 0; i < magnitude.length; i++) {
+        if (!accept(i)) continue
+        const edge = maxMagnitude > 0 ? magnitude[i] / maxMagnitude : 0
+        const weight = 1 - strength + strength * edge
+        if (weight <= 0) continue
+        candidates.push(i)
+        keys.push(Math.pow(random(), 1 / weight))
+    }
+
+    const count = Math.round(candidates.length / (spacing * spacing))
+    return candidates
+        .map((_, k) => k)
+        .sort((a, b) => keys[b] - keys[a])
+        .slice(0, count)
+        .map((k) => candidates[k])
+        .sort((a, b) => a - b)
+}
+
+/**
+ * Stippling by Floyd-Steinberg error diffusion on a grid of `spacing`-sized
+ * cells, so dot density follows the average luminance of each cell.
+ * `tone` picks whether dark or light areas receive the dots.
+ */
+const sampleDither = (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    spacing: number,
+    tone: "dark" | "light",
+    accept: (pixel: number) => boolean
+): number[] => {
+    const cols = Math.ceil(width / spacing)
+    const rows = Math.ceil(height / spacing)
+    const ink = new Float32Array(cols * rows)
+    // First accepted pixel of each cell, where its dot goes; -1 when none is
+    const anchors = new Int32Array(cols * rows).fill(-1)
+
+    for (let cy = 0; cy < rows; cy++) {
+        for (let cx = 0; cx < cols; cx++) {
+            let sum = 0
+            let count = 0
+            const maxY = Math.min(height, (cy + 1) * spacing)
+            const maxX = Math.min(width, (cx + 1) * spacing)
+            for (let y = cy * spacing; y < maxY; y++) {
+                for (let x = cx * spacing; x < maxX; x++) {
+                    const pixel = y * width + x
+                    if (!accept(pixel)) continue
+                    const i = pixel * 4
+                    sum += luminance(pixels[i], pixels[i + 1], pixels[i + 2])
+                    if (count === 0) anchors[cy * cols + cx] = pixel
+                    count++
+                }
+            }
+            const value = count > 0 ? sum / count : 0
+            ink[cy * cols + cx] = tone === "dark" ? 1 - value : value
+        }
+    }
+
+    const diffuse = (cx: number, cy: number, amount: number) => {
+        if (cx < 0 || cx >= cols || cy >= rows) return
+        ink[cy * cols + cx] += amount
+    }
+
+    const samples: number[] = []
+    for (let cy = 0; cy < rows; cy++) {
+        // Serpentine scan avoids the directional streaks of plain raster order
+        const dir = cy % 2 === 0 ? 1 : -1
+        for (let k = 0; k < cols; k++) {
+            const cx = dir === 1 ? k : cols - 1 - k
+            const pixel = anchors[cy * cols + cx]
+            if (pixel < 0) continue
+
+            const value = ink[cy * cols + cx]
+            const dot = value >= 0.5 ? 1 : 0
+            if (dot) samples.push(pixel)
+
+            const error = value - dot
+            diffuse(cx + dir, cy, (error * 7) / 16)
+            diffuse(cx - dir, cy + 1, (error * 3) / 16)
+            diffuse(cx, cy + 1, (error * 5) / 16)
+            diffuse(cx + dir, cy + 1, (error * 1) / 16)
+        }
+    }
+    return samples.sort((a, b) => a - b)
+}
+
+const HILBERT_SIZE = 1024
+
+// Distance along a Hilbert curve filling a HILBERT_SIZE x HILBERT_SIZE grid.
+const hilbertIndex = (x: number, y: number): number => {
+    let d = 0
+    for (let s = HILBERT_SIZE / 2; s > 0; s >>= 1) {
+        const rx = (x & s) > 0 ? 1 : 0
+        const ry = (y & s) > 0 ? 1 : 0
+        d += s * s * ((3 * rx) ^ ry)
+        if (ry === 0) {
+            if (rx === 1) {
+                x = HILBERT_SIZE - 1 - x
+                y = HILBERT_SIZE - 1 - y
+            }
+            const t = x
+            x = y
+            y = t
+        }
+    }
+    return d
+}
+
+const sortAlongHilbertCurve = (
+    points: THREE.Vector3[],
+    bounds: THREE.Box3
+): number[] => {
+    const size = bounds.getSize(new THREE.Vector3())
+    const scale = (HILBERT_SIZE - 1) / Math.max(size.x, size.y, 1e-6)
+    const keys = points.map((p) =>
+        hilbertIndex(
+            Math.floor((p.x - bounds.min.x) * scale),
+            Math.floor((p.y - bounds.min.y) * scale)
+        )
+    )
+    return points.map((_, i) => i).sort((a, b) => keys[a] - keys[b])
+}
+
+/**
+ * Pairs every anchor with a point, returning the point index per anchor.
+ * "spatial" walks both sets along one Hilbert curve and matches them by
+ * relative rank, then untangles neighbouring pairs with a windowed 2-opt
+ * pass so that travel distances and path crossings stay low.
+ */
+const assignPoints = (
+    anchors: THREE.Vector3[],
+    points: THREE.Vector3[],
+    mode: AssignmentMode
+): Int32Array => {
+    const assignment = new Int32Array(anchors.length)
+    if (points.length === 0) return assignment
+
+    if (mode === "index") {
+        for (let i = 0; i < anchors.length; i++) {
+            assignment[i] = i % points.length
+        }
+        return assignment
+    }
+
+    const bounds = new THREE.Box3()
+        .setFromPoints(anchors)
+        .union(new THREE.Box3().setFromPoints(points))
+    const anchorOrder = sortAlongHilbertCurve(anchors, bounds)
+    const pointOrder = sortAlongHilbertCurve(points, bounds)
+
+    for (let rank = 0; rank < anchorOrder.length; rank++) {
+        assignment[anchorOrder[rank]] =
+            pointOrder[Math.floor((rank * points.length) / anchorOrder.length)]
+    }
+
+    const window = 8
+    for (let pass = 0; pass < 2; pass++) {
+        for (let rank = 0; rank < anchorOrder.length; rank++) {
+            const a = anchorOrder[rank]
+            for (let k = 1; k <= window && rank + k < anchorOrder.length; k++) {
+                const b = anchorOrder[rank + k]
+                const pa = points[assignment[a]]
+                const pb = points[assignment[b]]
+                const current =
+                    anchors[a].distanceToSquared(pa) +
+                    anchors[b].distanceToSquared(pb)
+                const swapped =
+                    anchors[a].distanceToSquared(pb) +
+                    anchors[b].distanceToSquared(pa)
+                if (swapped < current) {
+                    const t = assignment[a]
+                    assignment[a] = assignment[b]
+                    assignment[b] = t
+                }
+            }
+        }
+    }
+    return assignment
+}
+
+const isSvgUrl = (url: string): boolean =>
+    /^data:image\/svg\+xml/i.test(url) || /\.svg($|[?#])/i.test(url)
+
+const isInsidePolygon = (x: number, y: number, polygon: THREE.Vector2[]) => {
+    let inside = false
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]
+        const b = polygon[j]
+        if (
+            a.y > y !== b.y > y &&
+            x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+        ) {
+            inside = !inside
+        }
+    }
+    return inside
+}
+
+/**
+ * Samples SVG geometry directly instead of its rasterized pixels. Outlines
+ * (strokes, or the edges of filled shapes without a stroke) get particles at
+ * even arc-length `spacing`; thick strokes are covered by parallel lanes.
+ * Interiors of filled shapes are optionally filled on a grid. The drawing is
+ * framed like a raster image fitted into the max box, but positions come
+ * from the curves themselves, so outlines stay exact.
+ */
+const getVectorParticleData = (
+    svgText: string,
+    spacing: number,
+    fillInteriors: boolean,
+    maxWidth: number,
+    maxHeight: number
+): ParticleData[] => {
+    const { paths, xml } = new SVGLoader().parse(svgText)
+
+    // Frame the drawing by its viewBox, falling back to size or bounds
+    let frame = (xml.getAttribute("viewBox") ?? "")
+        .split(/[\s,]+/)
+        .map(Number)
+        .filter((n: number) => !isNaN(n))
+    if (frame.length !== 4) {
+        const width = parseFloat(xml.getAttribute("width") ?? "")
+        const height = parseFloat(xml.getAttribute("height") ?? "")
+        if (width > 0 && height > 0) {
+            frame = [0, 0, width, height]
+        } else {
+            const bounds = new THREE.Box2()
+            paths.forEach((path: THREE.ShapePath) =>
+                path.subPaths.forEach((subPath: THREE.Path) =>
+                    subPath
+                        .getPoints()
+                        .forEach((point) => bounds.expandByPoint(point))
+                )
+            )
+            if (bounds.isEmpty()) return []
+            frame = [
+                bounds.min.x,
+                bounds.min.y,
+                bounds.max.x - bounds.min.x,
+                bounds.max.y - bounds.min.y,
+            ]
+        }
+    }
+    const [minX, minY, frameWidth, frameHeight] = frame
+    const ratio = Math.min(maxWidth / frameWidth, maxHeight / frameHeight)
+    const step = spacing / ratio
+
+    const data: ParticleData[] = []
+    const push = (x: number, y: number, color: THREE.Color) =>
+        data.push({
+            position: new THREE.Vector3(
+                (x - minX - frameWidth / 2) * ratio,
+                -(y - minY - frameHeight / 2) * ratio,
+                0
+            ),
+            color: color.clone(),
+            alpha: 1,
+        })
+    const parseColor = (value: string | undefined) =>
+        value && value !== "none" && !value.startsWith("url(")
+            ? new THREE.Color(1, 1, 1).setStyle(value)
+            : null
+
+    const normal = new THREE.Vector2()
+    for (const path of paths) {
+        const style = path.userData?.style ?? {}
+        const fill = parseColor(style.fill)
+        const stroke = parseColor(style.stroke)
+        const outline = stroke ?? fill
+        if (!outline) continue
+
+        const lanes = stroke
+            ? Math.max(1, Math.round((style.strokeWidth ?? 1) / step))
+            : 1
+        for (const subPath of path.subPaths as THREE.Path[]) {
+            const divisions = Math.max(1, Math.ceil(subPath.getLength() / step))
+            const points = subPath.getSpacedPoints(divisions)
+            const isClosed = points[0].distanceTo(points[divisions]) < 1e-6
+            const count = isClosed ? divisions : divisions + 1
+            for (let i = 0; i < count; i++) {
+                const prev = points[Math.max(0, i - 1)]
+                const next = points[Math.min(divisions, i + 1)]
+                normal.set(prev.y - next.y, next.x - prev.x).normalize()
+                for (let lane = 0; lane < lanes; lane++) {
+                    const offset = (lane - (lanes - 1) / 2) * step
+                    push(
+                        points[i].x + normal.x * offset,
+                        points[i].y + normal.y * offset,
+                        outline
+                    )
+                }
+            }
+        }
+
+        if (!fillInteriors || !fill) continue
+        for (const shape of SVGLoader.createShapes(path) as THREE.Shape[]) {
+            const { shape: contour, holes } = shape.extractPoints(12)
+            const bounds = new THREE.Box2().setFromPoints(contour)
+            // Align to a global grid so neighbouring shapes line up
+            for (
+                let y = Math.ceil(bounds.min.y / step) * step;
+                y <= bounds.max.y;
+                y += step
+            ) {
+                for (
+                    let x = Math.ceil(bounds.min.x / step) * step;
+                    x <= bounds.max.x;
+                    x += step
+                ) {
+                    if (!isInsidePolygon(x, y, contour)) continue
+                    if (holes.some((hole) => isInsidePolygon(x, y, hole))) {
+                        continue
+                    }
+                    push(x, y, fill)
+                }
+            }
+        }
+    }
+    return data
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+// Offsets the k-th copy of a point along a sunflower spiral around it.
+const fanOut = (position: THREE.Vector3, k: number, spacing: number) => {
+    if (k === 0) return
+    const radius = spacing * 0.5 * Math.sqrt(k)
+    position.x += Math.cos(k * GOLDEN_ANGLE) * radius
+    position.y += Math.sin(k * GOLDEN_ANGLE) * radius
+}
+
+// Reuses the n-th entry of `points`, or adds one, for samples written into
+// the same array every frame
+const reusePoint = (points: ParticleData[], n: number): ParticleData => {
+    if (!points[n]) {
+        points[n] = {
+            position: new THREE.Vector3(),
+            color: new THREE.Color(),
+            alpha: 0,
+        }
+    }
+    return points[n]
+}
+
+/**
+ * Thins out or repeats sampled points until exactly `count` remain. Points
+ * are picked evenly along a Hilbert curve so the result stays spatially
+ * uniform, and repeats are fanned out around the point they copy. The
+ * result is written into `out`, whose entries are reused.
+ */
+const fitToCount = (
+    data: ParticleData[],
+    count: number,
+    spacing: number,
+    out: ParticleData[] = []
+): ParticleData[] => {
+    if (data.length === 0 || data.length === count) return data
+
+    const positions = data.map((d) => d.position)
+    const order = sortAlongHilbertCurve(
+        positions,
+        new THREE.Box3().setFromPoints(positions)
+    )
+    let previous = -1
+    let k = 0
+    for (let n = 0; n < count; n++) {
+        const index = order[Math.floor((n * data.length) / count)]
+        k = index === previous ? k + 1 : 0
+        previous = index
+
+        const point = reusePoint(out, n)
+        point.position.copy(data[index].position)
+        fanOut(point.position, k, spacing)
+        point.color.copy(data[index].color)
+        point.alpha = data[index].alpha
+    }
+    out.length = count
+    return out
+}
+
+const CAMERA_FOV = 75
+
+// Size of the z = 0 plane seen by a camera `distance` away from it.
+const getVisibleSize = (
+    viewportWidth: number,
+    viewportHeight: number,
+    distance: number
+) => {
+    const height =
+        2 *
+        Math.abs(distance) *
+        Math.tan(THREE.MathUtils.degToRad(CAMERA_FOV) / 2)
+    return {
+        width: Math.round(
+            (height * viewportWidth) / Math.max(1, viewportHeight)
+        ),
+        height: Math.round(height),
+    }
+}
+
+/**
+ * Scales centered sample points into the world-space frame. The content box
+ * is the sampled image, or the bounds of the points when it is not given.
+ * A shared frame uses the full sampling box for every source instead, so
+ * source and target keep one scale whatever their aspect ratios. "world"
+ * fits like "contain" into the explicit world size. Depth follows the
+ * smaller axis scale so reliefs keep their proportions.
+ */
+const fitToFrame = (
+    data: ParticleData[],
+    content: { width: number; height: number } | null,
+    fit: FitProps,
+    frame: { width: number; height: number }
+): ParticleData[] => {
+    if (data.length === 0) return data
+    if (fit.sharedFrame) {
+        content = { width: fit.resolution, height: fit.resolution }
+    } else if (!content) {
+        const size = new THREE.Box3()
+            .setFromPoints(data.map((d) => d.position))
+            .getSize(new THREE.Vector3())
+        content = { width: size.x, height: size.y }
+    }
+
+    let scaleX = frame.width / Math.max(content.width, 1e-6)
+    let scaleY = frame.height / Math.max(content.height, 1e-6)
+    if (fit.mode !== "stretch") {
+        scaleX = scaleY =
+            fit.mode === "cover"
+                ? Math.max(scaleX, scaleY)
+                : Math.min(scaleX, scaleY)
+    }
+    const scaleZ = Math.min(scaleX, scaleY)
+    data.forEach(({ position }) => {
+        position.x *= scaleX
+        position.y *= scaleY
+        position.z *= scaleZ
+    })
+    return data
+}
+
+const MODEL_EXTENSION = /\.(ply|obj|gltf|glb)($|[?#])/i
+
+const isModelUrl = (url: string): boolean => MODEL_EXTENSION.test(url)
+
+// Picks the loader by extension; URLs without a known one load nothing
+const fetchModel = (
+    url: string,
+    onLoad: (object: THREE.Object3D | null) => void
+) => {
+    if (!isModelUrl(url)) {
+        onLoad(null)
+        return
+    }
+    const extension = url.match(MODEL_EXTENSION)![1].toLowerCase()
+    const onError = () => onLoad(null)
+    if (extension === "ply") {
+        new PLYLoader().load(
+            url,
+            (geometry) => {
+                // PLY files without faces are plain point clouds
+                const material = new THREE.MeshBasicMaterial()
+                onLoad(
+                    geometry.index
+                        ? new THREE.Mesh(geometry, material)
+                        : new THREE.Points(geometry, material)
+                )
+            },
+            undefined,
+            onError
+        )
+    } else if (extension === "obj") {
+        new OBJLoader().load(url, onLoad, undefined, onError)
+    } else {
+        new GLTFLoader().load(
+            url,
+            (gltf) => onLoad(gltf.scene),
+            undefined,
+            onError
+        )
+    }
+}
+
+// The last few parsed models by URL, so effects re-running for other
+// reasons don't download and parse them again
+const MODEL_CACHE_SIZE = 4
+const modelCache = new Map<string, Promise<THREE.Object3D | null>>()
+
+const loadModel = (
+    url: string,
+    onLoad: (object: THREE.Object3D | null) => void
+) => {
+    let model = modelCache.get(url)
+    if (model) {
+        // Re-insert so the model counts as recently used
+        modelCache.delete(url)
+    } else {
+        model = new Promise((resolve) => fetchModel(url, resolve))
+        // Failures aren't kept so a later attempt can succeed
+        model.then((object) => {
+            if (!object) modelCache.delete(url)
+        })
+    }
+    modelCache.set(url, model)
+    if (modelCache.size > MODEL_CACHE_SIZE) {
+        modelCache.delete(modelCache.keys().next().value!)
+    }
+    model.then(onLoad)
+}
+
+// Reads the color of a texture at a UV coordinate, or null if the texture
+// has no drawable image.
+const createTextureReader = (texture: THREE.Texture | null | undefined) => {
+    const image = texture?.image
+    if (!image || !image.width || !image.height) return null
+    const canvas = document.createElement("canvas")
+    canvas.width = image.width
+    canvas.height = image.height
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) return null
+    context.drawImage(image, 0, 0)
+    const pixels = context.getImageData(0, 0, image.width, image.height).data
+
+    return (uv: THREE.Vector2, target: THREE.Color) => {
+        const u = uv.x - Math.floor(uv.x)
+        const v = uv.y - Math.floor(uv.y)
+        const x = Math.min(image.width - 1, Math.floor(u * image.width))
+        const y = Math.min(
+            image.height - 1,
+            Math.floor((texture!.flipY ? 1 - v : v) * image.height)
+        )
+        const index = (y * image.width + x) * 4
+        return target
+            .setRGB(
+                pixels[index] / 255,
+                pixels[index + 1] / 255,
+                pixels[index + 2] / 255
+            )
+            .convertSRGBToLinear()
+    }
+}
+
+/**
+ * Turns a loaded model into particle data centered on the origin and scaled
+ * so its largest side matches the images' sampling box. "surface" scatters
+ * points over the triangles by area, "vertices" uses the vertices directly.
+ * Colors come from vertex colors, then the base color texture, then the
+ * material color. Point clouds always use their vertices.
+ */
+const getModelParticleData = (
+    object: THREE.Object3D,
+    modelSize: number,
+    spacing: number,
+    count: number | null,
+    mode: "surface" | "vertices",
+    seed: number
+): ParticleData[] => {
+    object.updateMatrixWorld(true)
+    const bounds = new THREE.Box3().setFromObject(object)
+    if (bounds.isEmpty()) return []
+    const size = bounds.getSize(new THREE.Vector3())
+    const scale = modelSize / Math.max(size.x, size.y, size.z, 1e-6)
+    const center = bounds.getCenter(new THREE.Vector3())
+
+    const parts: {
+        object: THREE.Mesh | THREE.Points
+        // Standard, basic and points materials all carry a color and map
+        material: THREE.Material & {
+            color?: THREE.Color
+            map?: THREE.Texture | null
+        }
+        area: number
+    }[] = []
+    const a = new THREE.Vector3()
+    const b = new THREE.Vector3()
+    const c = new THREE.Vector3()
+    object.traverse((child: THREE.Object3D) => {
+        if (!(child instanceof THREE.Mesh) && !(child instanceof THREE.Points))
+            return
+        const geometry: THREE.BufferGeometry = child.geometry
+        const position = geometry.getAttribute("position")
+        if (!position) return
+        const material = Array.isArray(child.material)
+            ? child.material[0]
+            : child.material
+
+        // World-space area decides how many surface samples a mesh gets
+        let area = 0
+        if (child instanceof THREE.Mesh) {
+            const index = geometry.index
+            const triangles = (index ? index.count : position.count) / 3
+            for (let t = 0; t < triangles; t++) {
+                const [i0, i1, i2] = [0, 1, 2].map((k) =>
+                    index ? index.getX(t * 3 + k) : t * 3 + k
+                )
+                a.fromBufferAttribute(position, i0).applyMatrix4(
+                    child.matrixWorld
+                )
+                b.fromBufferAttribute(position, i1).applyMatrix4(
+                    child.matrixWorld
+                )
+                c.fromBufferAttribute(position, i2).applyMatrix4(
+                    child.matrixWorld
+                )
+                area += new THREE.Triangle(a, b, c).getArea()
+            }
+        }
+        parts.push({ object: child, material, area })
+    })
+
+    const data: ParticleData[] = []
+    const uv = new THREE.Vector2()
+    const push = (
+        point: THREE.Vector3,
+        color: THREE.Color | null,
+        part: (typeof parts)[number],
+        readTexture: ReturnType<typeof createTextureReader>,
+        hasUv: boolean
+    ) => {
+        const particleColor = new THREE.Color(1, 1, 1)
+        if (color) {
+            particleColor.copy(color)
+        } else if (readTexture && hasUv) {
+            readTexture(uv, particleColor)
+        }
+        if (!color && part.material?.color) {
+            particleColor.multiply(part.material.color)
+        }
+        data.push({
+            position: point.sub(center).multiplyScalar(scale),
+            color: particleColor,
+            alpha: 1,
+        })
+    }
+
+    const totalArea = parts.reduce((sum, part) => sum + part.area, 0)
+    // Roughly one particle per spacing² of the surface facing the camera
+    const surfaceSamples =
+        count ??
+        Math.min(
+            100000,
+            Math.round((totalArea * scale * scale) / (2 * spacing * spacing))
+        )
+    const random = createRandom(seed)
+    const sampleColor = new THREE.Color()
+
+    for (const part of parts) {
+        const geometry = part.object.geometry
+        const colors = geometry.getAttribute("color")
+        const uvs = geometry.getAttribute("uv")
+        const readTexture = createTextureReader(part.material?.map)
+        const matrix = part.object.matrixWorld
+
+        if (mode === "surface" && part.area > 0 && totalArea > 0) {
+            const sampler = new MeshSurfaceSampler(part.object as THREE.Mesh)
+            sampler.setRandomGenerator(random).build()
+            const samples = Math.round((surfaceSamples * part.area) / totalArea)
+            for (let i = 0; i < samples; i++) {
+                const point = new THREE.Vector3()
+                sampler.sample(point, undefined, sampleColor, uv)
+                push(
+                    point.applyMatrix4(matrix),
+                    colors ? sampleColor : null,
+                    part,
+                    readTexture,
+                    !!uvs
+                )
+            }
+            continue
+        }
+
+        const positions = geometry.getAttribute("position")
+        for (let i = 0; i < positions.count; i++) {
+            if (uvs) uv.fromBufferAttribute(uvs, i)
+            push(
+                new THREE.Vector3()
+                    .fromBufferAttribute(positions, i)
+                    .applyMatrix4(matrix),
+                colors ? sampleColor.fromBufferAttribute(colors, i) : null,
+                part,
+                readTexture,
+                !!uvs
+            )
+        }
+    }
+
+    if (count) return fitToCount(data, count, spacing)
+    if (mode === "surface") return data
+
+    // Keep one vertex per spacing-sized cell so density behaves like images
+    const cells = new Set<string>()
+    return data.filter(({ position }) => {
+        const key = [position.x, position.y, position.z]
+            .map((v) => Math.floor(v / spacing))
+            .join(",")
+        if (cells.has(key)) return false
+        cells.add(key)
+        return true
+    })
+}
+
+// Reused while copying sampled points onto the particles
+const pointScratch = new THREE.Vector3()
+const pointColorScratch = new THREE.Color()
+
+// Particles resting on sampled data, with both sides showing it.
+const createParticles = (
+    data: ParticleData[],
+    appearance: AppearanceProps,
+    sizing: SizingProps
+): ParticleBuffers => {
+    const particles = createParticleBuffers(data.length)
+    particles.count = data.length
+    data.forEach((point, i) => {
+        const j = i * 3
+        point.position.toArray(particles.currentPosition, j)
+        point.position.toArray(particles.sourcePosition, j)
+        point.position.toArray(particles.targetPosition, j)
+        point.position.toArray(particles.attractorPosition, j)
+        point.color.toArray(particles.sourceBaseColor, j)
+        point.color.toArray(particles.targetBaseColor, j)
+        const color = applyAppearance(
+            pointColorScratch.copy(point.color),
+            appearance
+        )
+        color.toArray(particles.currentColor, j)
+        color.toArray(particles.sourceColor, j)
+        color.toArray(particles.targetColor, j)
+        const size = getSizeFactor(point.color, point.alpha, sizing)
+        const opacity = getOpacity(point.alpha, sizing)
+        particles.currentSize[i] = size
+        particles.sourceSize[i] = size
+        particles.targetSize[i] = size
+        particles.currentOpacity[i] = opacity
+        particles.sourceOpacity[i] = opacity
+        particles.targetOpacity[i] = opacity
+        particles.sourceAlpha[i] = point.alpha
+        particles.targetAlpha[i] = point.alpha
+        particles.sourcePoint[i] = i
+        particles.targetPoint[i] = i
+    })
+    particles.hasSource.fill(1)
+    particles.hasTarget.fill(1)
+    return particles
+}
+
+// An invisible copy of a particle that can take over one of its points.
+// Returns the new particle's index.
+const spawnParticle = (particles: ParticleBuffers, emitter: number) => {
+    const i = particles.count
+    reserveParticles(particles, i + 1)
+    particles.count++
+    copyParticle(particles, emitter, i)
+    particles.velocity.fill(0, i * 3, i * 3 + 3)
+    SCALAR_FIELDS.forEach((field) => {
+        if (field !== "morphDelay") particles[field][i] = 0
+    })
+    FLAG_FIELDS.forEach((field) => (particles[field][i] = 0))
+    return i
+}
+
+// Shows a sampled point on one side of a particle, fanned out as its k-th
+// copy. Particles hidden on that side get no size or opacity.
+const writePoint = (
+    particles: ParticleBuffers,
+    i: number,
+    point: ParticleData,
+    k: number,
+    side: "source" | "target",
+    appearance: AppearanceProps,
+    sizing: SizingProps,
+    spacing: number
+) => {
+    const isSource = side === "source"
+    const j = i * 3
+    pointScratch.copy(point.position)
+    fanOut(pointScratch, k, spacing)
+    pointScratch.toArray(
+        isSource ? particles.sourcePosition : particles.targetPosition,
+        j
+    )
+    point.color.toArray(
+        isSource ? particles.sourceBaseColor : particles.targetBaseColor,
+        j
+    )
+    applyAppearance(pointColorScratch.copy(point.color), appearance).toArray(
+        isSource ? particles.sourceColor : particles.targetColor,
+        j
+    )
+    const isShown = isSource ? particles.hasSource[i] : particles.hasTarget[i]
+    const size = isShown ? getSizeFactor(point.color, point.alpha, sizing) : 0
+    const opacity = isShown ? getOpacity(point.alpha, sizing) : 0
+    if (isSource) {
+        particles.sourceSize[i] = size
+        particles.sourceOpacity[i] = opacity
+        particles.sourceAlpha[i] = point.alpha
+    } else {
+        particles.targetSize[i] = size
+        particles.targetOpacity[i] = opacity
+        particles.targetAlpha[i] = point.alpha
+    }
+}
+
+/**
+ * Copies sampled image data onto the source or target side of the
+ * particles, adding or removing particles so that every point is shown by
+ * exactly one particle. Points are paired by the particles' positions on
+ * `anchorSide`, the side they currently show, and particles the other side
+ * shows claim points first. Surplus particles sharing a point are fanned out
+ * around it and hidden, so morphs dissolve them, and points left over are
+ * spawned from the particle holding the nearest point along a Hilbert curve,
+ * so morphs scale them in from there. Particles hidden on both sides are
+ * removed.
+ */
+const applyParticleData = (
+    particles: ParticleBuffers,
+    data: ParticleData[],
+    side: "source" | "target",
+    anchorSide: "source" | "target",
+    mode: AssignmentMode,
+    appearance: AppearanceProps,
+    sizing: SizingProps,
+    spacing: number
+) => {
+    if (particles.count === 0 || data.length === 0) return
+
+    const isSource = side === "source"
+    const hits = new Uint32Array(data.length)
+    // Particle showing each point, or -1
+    const owners = new Int32Array(data.length).fill(-1)
+    // Arrays are read on every call, as spawning may have swapped them
+    const showPoint = (i: number, index: number) => {
+        const k = hits[index]++
+        if (k === 0) owners[index] = i
+        if (isSource) {
+            particles.hasSource[i] = k === 0 ? 1 : 0
+            particles.sourcePoint[i] = index
+            particles.sourceFan[i] = k
+        } else {
+            particles.hasTarget[i] = k === 0 ? 1 : 0
+            particles.targetPoint[i] = index
+            particles.targetFan[i] = k
+        }
+        writePoint(
+            particles,
+            i,
+            data[index],
+            k,
+            side,
+            appearance,
+            sizing,
+            spacing
+        )
+    }
+    const claimPoints = (group: number[], indices: number[]) => {
+        if (group.length === 0 || indices.length === 0) return
+        const anchors =
+            anchorSide === "source"
+                ? particles.sourcePosition
+                : particles.targetPosition
+        const assignment = assignPoints(
+            group.map((i) => new THREE.Vector3().fromArray(anchors, i * 3)),
+            indices.map((i) => data[i].position),
+            mode
+        )
+        group.forEach((i, n) => showPoint(i, indices[assignment[n]]))
+    }
+    const getUnclaimed = () =>
+        data.map((_, i) => i).filter((i) => hits[i] === 0)
+
+    const shownOpposite: number[] = []
+    const hiddenOpposite: number[] = []
+    const hasOpposite = isSource ? particles.hasTarget : particles.hasSource
+    const hasSide = isSource ? particles.hasSource : particles.hasTarget
+    for (let i = 0; i < particles.count; i++) {
+        if (hasOpposite[i]) {
+            shownOpposite.push(i)
+        } else {
+            hiddenOpposite.push(i)
+            hasSide[i] = 0
+        }
+    }
+    claimPoints(shownOpposite, getUnclaimed())
+    claimPoints(hiddenOpposite, getUnclaimed())
+
+    const unclaimed = getUnclaimed()
+    if (unclaimed.length > 0) {
+        const positions = data.map((d) => d.position)
+        const order = sortAlongHilbertCurve(
+            positions,
+            new THREE.Box3().setFromPoints(positions)
+        )
+        // Walk the curve both ways so points before the first owner get one
+        const emitters = new Int32Array(data.length).fill(-1)
+        let emitter = -1
+        order.forEach((i) => {
+            if (owners[i] >= 0) emitter = owners[i]
+            emitters[i] = emitter
+        })
+        emitter = -1
+        order.reverse().forEach((i) => {
+            if (owners[i] >= 0) emitter = owners[i]
+            if (emitters[i] < 0) emitters[i] = emitter
+        })
+        unclaimed.forEach((index) =>
+            showPoint(spawnParticle(particles, emitters[index]), index)
+        )
+    }
+
+    // Compact in place so callers holding the buffers see the change
+    let kept = 0
+    for (let i = 0; i < particles.count; i++) {
+        if (!particles.hasSource[i] && !particles.hasTarget[i]) continue
+        if (kept !== i) copyParticle(particles, i, kept)
+        kept++
+    }
+    particles.count = kept
+}
+
+/**
+ * Rewrites one side of the particles from data with as many points as the
+ * data it was last paired with, keeping every particle on the same point.
+ * Far cheaper than applyParticleData for data that changes every frame.
+ */
+const updateParticleData = (
+    particles: ParticleBuffers,
+    data: ParticleData[],
+    side: "source" | "target",
+    appearance: AppearanceProps,
+    sizing: SizingProps,
+    spacing: number
+) => {
+    const points =
+        side === "source" ? particles.sourcePoint : particles.targetPoint
+    const fans = side === "source" ? particles.sourceFan : particles.targetFan
+    for (let i = 0; i < particles.count; i++) {
+        writePoint(
+            particles,
+            i,
+            data[points[i]],
+            fans[i],
+            side,
+            appearance,
+            sizing,
+            spacing
+        )
+    }
+}
+
+/**
+ * What a choreography sees of one particle while it morphs. The same object
+ * is handed over for every particle, so copy anything kept between calls.
+ */
+export interface ChoreographyParticle {
+    index: number
+    count: number
+    start: THREE.Vector3
+    end: THREE.Vector3
+    // Random point in a unit cube around the origin, fixed for one morph
+    jitter: THREE.Vector3
+    // Box around every start and end position
+    bounds: THREE.Box3
+    // Linear progress through this particle's own, possibly staggered, part
+    // of the morph
+    morphProgress: number
+}
+
+/**
+ * Computes where a particle is pulled to, given the index of the current
+ * phase and the eased progress through it, which may overshoot 0-1 with
+ * springy easings. Writes into `out`.
+ */
+export type ChoreographyAttractor = (
+    particle: ChoreographyParticle,
+    progress: number,
+    phase: number,
+    out: THREE.Vector3
+) => void
+
+interface Choreography {
+    // Relative lengths of the phases
+    phases: number[]
+    // Reported to onMorphPhaseChange
+    phaseNames: string[]
+    attractor: ChoreographyAttractor
+}
+
+const choreographies = new Map<string, Choreography>()
+
+/** Adds a morph choreography that can be picked by name. */
+export const registerChoreography = (
+    name: string,
+    attractor: ChoreographyAttractor,
+    phases: number[] = [1],
+    phaseNames: string[] = []
+) => {
+    choreographies.set(name, {
+        phases,
+        phaseNames: phases.map((_, i) => phaseNames[i] ?? `phase ${i + 1}`),
+        attractor,
+    })
+}
+
+const getChoreography = (name: string): Choreography =>
+    choreographies.get(name) ?? choreographies.get("burst")!
+
+// Clamped progress, or null when nothing valid is driving the morph
+const readMorphProgress = (
+    value: ProgressSource | null | undefined
+): number | null => {
+    if (value === null || value === undefined) return null
+    const progress = typeof value === "number" ? value : value.get()
+    return Number.isFinite(progress)
+        ? THREE.MathUtils.clamp(progress, 0, 1)
+        : null
+}
+
+interface PhaseProgress {
+    phase: number
+    progress: number
+}
+
+// Splits linear morph progress into the phase index and progress within it.
+// Writes into `out`.
+const getPhaseProgress = (
+    phases: number[],
+    progress: number,
+    out: PhaseProgress
+) => {
+    const total = phases.reduce((sum, length) => sum + length, 0)
+    let start = 0
+    for (let phase = 0; phase < phases.length - 1; phase++) {
+        const end = start + phases[phase] / total
+        if (progress < end) {
+            out.phase = phase
+            out.progress = (progress - start) / (end - start)
+            return out
+        }
+        start = end
+    }
+    out.phase = phases.length - 1
+    out.progress = start < 1 ? Math.min(1, (progress - start) / (1 - start)) : 1
+    return out
+}
+
+// Local progress for particles that start late and finish early
+const getDelayedProgress = (progress: number, delay: number, span: number) =>
+    THREE.MathUtils.clamp((progress - delay) / span, 0, 1)
+
+// Reused by the choreographies, which run for every particle every frame
+const scratch = new THREE.Vector3()
+const travelScratch = new THREE.Vector3()
+const perpendicularScratch = new THREE.Vector3()
+const SWIRL_AXIS = new THREE.Vector3(0.3, -0.4, 0.8).normalize()
+
+// Straight to the end and let the return spring carry the particles
+registerChoreography(
+    "spring",
+    (particle, progress, phase, out) => {
+        out.copy(particle.end)
+    },
+    [1],
+    ["spring"]
+)
+
+// Random burst, gather on a Fibonacci sphere, then swirl into place
+registerChoreography(
+    "burst",
+    ({ index, count, start, end, jitter }, progress, phase, out) => {
+        const phi = Math.acos(-1 + (2 * index) / count)
+        const theta = Math.sqrt(count * Math.PI) * phi
+        const spherePos = scratch.setFromSphericalCoords(180, phi, theta)
+
+        if (phase === 0) {
+            out.copy(jitter).multiplyScalar(300).add(start)
+            out.lerpVectors(start, out, progress)
+        } else if (phase === 1) {
+            out.copy(jitter).multiplyScalar(300).add(start)
+            out.lerp(spherePos, progress)
+        } else {
+            const travelVector = travelScratch.subVectors(end, spherePos)
+            const perpendicular = perpendicularScratch
+                .crossVectors(travelVector, SWIRL_AXIS)
+                .normalize()
+            if (perpendicular.lengthSq() < 0.1) {
+                perpendicular.set(0, 1, 0)
+            }
+            const swirlAmplitude =
+                travelVector.length() * 0.3 * Math.sin(progress * Math.PI)
+            out.lerpVectors(spherePos, end, progress).add(
+                perpendicular.multiplyScalar(swirlAmplitude)
+            )
+        }
+    },
+    [1300, 1300, 1400],
+    ["burst", "gather", "resolve"]
+)
+
+// Spins around the view axis while travelling, fastest halfway through
+registerChoreography(
+    "vortex",
+    ({ start, end, jitter }, progress, phase, out) => {
+        const angle =
+            Math.PI * 2 * Math.sin(progress * Math.PI) * (1 + jitter.z * 0.5)
+        out.lerpVectors(start, end, progress)
+        const { x, y } = out
+        out.x = x * Math.cos(angle) - y * Math.sin(angle)
+        out.y = x * Math.sin(angle) + y * Math.cos(angle)
+        out.z += Math.sin(progress * Math.PI) * 60 * jitter.x
+    },
+    [1],
+    ["spin"]
+)
 
-const easeInOutCubic = (t: number): number =>
-    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+// A wave sweeps left to right, lifting each column as it passes; each
+// particle's own trip keeps its ease while the easing paces the sweep
+registerChoreography(
+    "wave",
+    ({ start, end, bounds }, progress, phase, out) => {
+        const width = Math.max(bounds.max.x - bounds.min.x, 1e-6)
+        const column = (start.x - bounds.min.x) / width
+        const local = easeInOutCubic(
+            getDelayedProgress(progress, column * 0.6, 0.4)
+        )
+        const lift = Math.sin(local * Math.PI)
+        out.lerpVectors(start, end, local)
+        out.y += lift * 40
+        out.z += lift * 80
+    },
+    [1],
+    ["sweep"]
+)
 
-const applyVibrancy = (color: THREE.Color, vibrancy: number): THREE.Color => {
-    const hsl = { h: 0, s: 0, l: 0 }
-    color.getHSL(hsl)
-    hsl.s = Math.min(1, hsl.s * vibrancy)
-    color.setHSL(hsl.h, hsl.s, hsl.l)
-    return color
+// Falls below the shape, then rises into the new one
+registerChoreography(
+    "gravity",
+    ({ start, end, jitter, bounds }, progress, phase, out) => {
+        const floor = scratch.set(
+            start.x + jitter.x * 60,
+            bounds.min.y - 80 - (jitter.y + 0.5) * 40,
+            start.z + jitter.z * 60
+        )
+        if (phase === 0) {
+            // Accelerates like a falling object
+            out.lerpVectors(start, floor, progress * progress)
+        } else {
+            const eased = 1 - Math.pow(1 - progress, 3)
+            out.lerpVectors(floor, end, eased)
+        }
+    },
+    [0.45, 0.55],
+    ["drop", "rise"]
+)
+
+// Particles break away at random moments, scatter and settle one by one
+registerChoreography(
+    "dissolve",
+    ({ start, end, jitter }, progress, phase, out) => {
+        const local = getDelayedProgress(progress, (jitter.x + 0.5) * 0.6, 0.4)
+        const scatter = scratch
+            .lerpVectors(start, end, 0.5)
+            .addScaledVector(jitter, 400)
+        if (local < 0.5) {
+            out.lerpVectors(start, scatter, easeInOutCubic(local * 2))
+        } else {
+            out.lerpVectors(scatter, end, easeInOutCubic(local * 2 - 1))
+        }
+    },
+    [1],
+    ["scatter"]
+)
+
+// Spirals up into a funnel, then rains down into the new shape
+registerChoreography(
+    "tornado",
+    (
+        { index, count, start, end, bounds, morphProgress },
+        progress,
+        phase,
+        out
+    ) => {
+        const height = index / count
+        const centerX = (bounds.min.x + bounds.max.x) / 2
+        const angle = index * GOLDEN_ANGLE + morphProgress * Math.PI * 6
+        const radius = 20 + 140 * height
+        const funnel = scratch.set(
+            centerX + Math.cos(angle) * radius,
+            THREE.MathUtils.lerp(bounds.min.y, bounds.max.y + 60, height),
+            Math.sin(angle) * radius
+        )
+        if (phase === 0) {
+            out.lerpVectors(start, funnel, progress)
+        } else {
+            out.lerpVectors(funnel, end, progress)
+        }
+    },
+    [0.5, 0.5],
+    ["lift", "land"]
+)
+
+interface MorphPlan {
+    choreography: Choreography
+    duration: number
+    phaseDurations: number[]
+    easing: (t: number) => number
+    phaseEasings: ((t: number) => number)[]
+    bounds: THREE.Box3
+    // Largest delay, so the last particle still lands on time
+    spread: number
+    colors: ColorTransitionProps
 }
 
-const handleCollisions = (particles: Particle[], particleSize: number) => {
-    if (particles.length < 2 || particleSize <= 0) return
+interface MorphOptions {
+    choreography: string
+    timing: TimingProps
+    stagger: StaggerProps
+    colors: ColorTransitionProps
+}
 
-    const collisionDist = particleSize * 2
-    const collisionDistSq = collisionDist * collisionDist
+// Reused while planning morphs
+const planScratch = new THREE.Vector3()
+const planColorScratch = new THREE.Color()
 
-    const gridCellSize = collisionDist
-    const grid: Map<string, Particle[]> = new Map()
+const getMorphBounds = (particles: ParticleBuffers, bounds: THREE.Box3) => {
+    bounds.makeEmpty()
+    for (let i = 0; i < particles.count; i++) {
+        bounds.expandByPoint(
+            planScratch.fromArray(particles.sourcePosition, i * 3)
+        )
+        bounds.expandByPoint(
+            planScratch.fromArray(particles.targetPosition, i * 3)
+        )
+    }
+    return bounds
+}
 
-    const getCellKey = (p: THREE.Vector3) => {
-        return `${Math.floor(p.x / gridCellSize)}_${Math.floor(
-            p.y / gridCellSize
-        )}_${Math.floor(p.z / gridCellSize)}`
+/**
+ * Delays each particle by its place in the stagger order, measured on the
+ * side the morph starts from. Radial orders run outwards from the middle of
+ * the shapes or from the pointer. Returns the spread actually used.
+ */
+const assignStaggerDelays = (
+    particles: ParticleBuffers,
+    stagger: StaggerProps,
+    direction: "toTarget" | "toSource",
+    bounds: THREE.Box3,
+    pointer: THREE.Vector3 | null
+): number => {
+    const spread =
+        stagger.mode === "none"
+            ? 0
+            : THREE.MathUtils.clamp(stagger.spread || 0, 0, 0.95)
+    if (spread === 0 || bounds.isEmpty()) {
+        particles.morphDelay.fill(0, 0, particles.count)
+        return 0
     }
 
-    for (const p of particles) {
-        const key = getCellKey(p.currentPosition)
-        if (!grid.has(key)) {
-            grid.set(key, [])
+    const toTarget = direction === "toTarget"
+    const size = bounds.getSize(new THREE.Vector3())
+    const origin =
+        stagger.mode === "pointer" && pointer
+            ? pointer
+            : bounds.getCenter(new THREE.Vector3())
+    const starts = toTarget
+        ? particles.sourcePosition
+        : particles.targetPosition
+    const baseColors = toTarget
+        ? particles.sourceBaseColor
+        : particles.targetBaseColor
+    const orders = Array.from({ length: particles.count }, (_, i) => {
+        const start = planScratch.fromArray(starts, i * 3)
+        switch (stagger.mode) {
+            case "leftToRight":
+                return (start.x - bounds.min.x) / Math.max(size.x, 1e-6)
+            case "topToBottom":
+                return (bounds.max.y - start.y) / Math.max(size.y, 1e-6)
+            case "random":
+                return Math.random()
+            case "luminance": {
+                const srgb = planColorScratch
+                    .fromArray(baseColors, i * 3)
+                    .convertLinearToSRGB()
+                return luminance(srgb.r * 255, srgb.g * 255, srgb.b * 255)
+            }
+            default:
+                return start.distanceTo(origin)
         }
-        grid.get(key)!.push(p)
+    })
+    const isRadial = stagger.mode === "radial" || stagger.mode === "pointer"
+    const farthest = isRadial
+        ? orders.reduce((max, order) => Math.max(max, order), 1e-6)
+        : 1
+    orders.forEach((order, i) => {
+        const scaled = THREE.MathUtils.clamp(order / farthest, 0, 1)
+        particles.morphDelay[i] =
+            (stagger.invert ? 1 - scaled : scaled) * spread
+    })
+    return spread
+}
+
+/**
+ * Resolves the choreography, timing and stagger for one morph and re-rolls
+ * the jitter.
+ */
+const planMorph = (
+    particles: ParticleBuffers,
+    { choreography: choreographyName, timing, stagger, colors }: MorphOptions,
+    direction: "toTarget" | "toSource",
+    pointer: THREE.Vector3 | null
+): MorphPlan => {
+    for (let j = 0; j < particles.count * 3; j++) {
+        particles.morphJitter[j] = Math.random() - 0.5
+    }
+    const choreography = getChoreography(choreographyName)
+    const duration = Math.max(MIN_MORPH_DURATION, timing.duration || 0)
+    const phaseDurations = resolvePhaseDurations(
+        choreography.phases,
+        timing.phaseDurations,
+        duration
+    )
+    const bounds = getMorphBounds(particles, new THREE.Box3())
+    return {
+        choreography,
+        duration,
+        phaseDurations,
+        easing: createEasing(timing.easing, duration),
+        phaseEasings: phaseDurations.map((length) =>
+            createEasing(timing.easing, length)
+        ),
+        bounds,
+        spread: assignStaggerDelays(
+            particles,
+            stagger,
+            direction,
+            bounds,
+            pointer
+        ),
+        colors: {
+            ...colors,
+            start: THREE.MathUtils.clamp(colors.start || 0, 0, 1),
+            end: THREE.MathUtils.clamp(colors.end ?? 1, 0, 1),
+        },
     }
+}
 
-    const collisionNormal = new THREE.Vector3()
-    const relativeVelocity = new THREE.Vector3()
-    const correction = new THREE.Vector3()
-    const impulse = new THREE.Vector3()
+interface MorphTiming {
+    morphProgress: number
+    totalProgress: number
+    colorProgress: number
+    phase: number
+    phaseProgress: number
+}
 
-    for (const p1 of particles) {
-        const p1x = Math.floor(p1.currentPosition.x / gridCellSize)
-        const p1y = Math.floor(p1.currentPosition.y / gridCellSize)
-        const p1z = Math.floor(p1.currentPosition.z / gridCellSize)
+// Eased overall and per-phase progress at one point of the morph. Writes
+// into `out`.
+const getMorphTiming = (
+    plan: MorphPlan,
+    morphProgress: number,
+    out: MorphTiming
+) => {
+    const { phase, progress } = getPhaseProgress(
+        plan.phaseDurations,
+        morphProgress,
+        phaseScratch
+    )
+    const { start, end } = plan.colors
+    const colorProgress =
+        end > start
+            ? plan.easing(
+                  THREE.MathUtils.clamp(
+                      (morphProgress - start) / (end - start),
+                      0,
+                      1
+                  )
+              )
+            : morphProgress >= start
+              ? 1
+              : 0
+    out.morphProgress = morphProgress
+    out.totalProgress = plan.easing(morphProgress)
+    // Springy easings overshoot, which colors can't
+    out.colorProgress = THREE.MathUtils.clamp(colorProgress, 0, 1)
+    out.phase = phase
+    out.phaseProgress = plan.phaseEasings[phase](progress)
+    return out
+}
 
-        for (let dx = -1; dx <= 1; dx++) {
-            for (let dy = -1; dy <= 1; dy++) {
-                for (let dz = -1; dz <= 1; dz++) {
-                    const key = `${p1x + dx}_${p1y + dy}_${p1z + dz}`
-                    const cell = grid.get(key)
-                    if (cell) {
-                        for (const p2 of cell) {
-                            if (p1.id >= p2.id) continue
-
-                            const distanceSq =
-                                p1.currentPosition.distanceToSquared(
-                                    p2.currentPosition
-                                )
-
-                            if (
-                                distanceSq > 0 &&
-                                distanceSq < collisionDistSq
-                            ) {
-                                const distance = Math.sqrt(distanceSq)
-                                const overlap = (collisionDist - distance) * 0.5
-
-                                collisionNormal
-                                    .subVectors(
-                                        p1.currentPosition,
-                                        p2.currentPosition
-                                    )
-                                    .multiplyScalar(1 / distance)
-
-                                correction
-                                    .copy(collisionNormal)
-                                    .multiplyScalar(overlap)
-                                p1.currentPosition.add(correction)
-                                p2.currentPosition.sub(correction)
-
-                                relativeVelocity.subVectors(
-                                    p1.velocity,
-                                    p2.velocity
-                                )
-                                const velocityAlongNormal =
-                                    relativeVelocity.dot(collisionNormal)
-
-                                if (velocityAlongNormal > 0) continue
-
-                                const restitution = 0.5
-                                const impulseScalar =
-                                    -(1 + restitution) * velocityAlongNormal
-
-                                impulse
-                                    .copy(collisionNormal)
-                                    .multiplyScalar(impulseScalar * 0.5)
-                                p1.velocity.add(impulse)
-                                p2.velocity.sub(impulse)
-                            }
-                        }
-                    }
-                }
-            }
+// Reused by stepMorph, which runs for every particle every frame
+const phaseScratch: PhaseProgress = { phase: 0, progress: 0 }
+const timingScratch: MorphTiming = {
+    morphProgress: 0,
+    totalProgress: 0,
+    colorProgress: 0,
+    phase: 0,
+    phaseProgress: 0,
+}
+const choreographyScratch: ChoreographyParticle = {
+    index: 0,
+    count: 0,
+    start: new THREE.Vector3(),
+    end: new THREE.Vector3(),
+    jitter: new THREE.Vector3(),
+    bounds: new THREE.Box3(),
+    morphProgress: 0,
+}
+const attractorScratch = new THREE.Vector3()
+const fromColorScratch = new THREE.Color()
+const toColorScratch = new THREE.Color()
+const mixedColorScratch = new THREE.Color()
+
+/**
+ * Places every particle's attractor, color, size and opacity at a point
+ * along the morph, given linear progress from the start side to the end.
+ * Staggered particles run the same path on their own, shorter clock.
+ * Choreographies see each particle through scratch vectors copied from the
+ * buffers, and their output is copied back.
+ */
+const stepMorph = (
+    particles: ParticleBuffers,
+    plan: MorphPlan,
+    direction: "toTarget" | "toSource",
+    morphProgress: number
+) => {
+    const { choreography, bounds, spread, colors } = plan
+    const timing = timingScratch
+    if (spread === 0) getMorphTiming(plan, morphProgress, timing)
+    const toTarget = direction === "toTarget"
+    const startPositions = toTarget
+        ? particles.sourcePosition
+        : particles.targetPosition
+    const endPositions = toTarget
+        ? particles.targetPosition
+        : particles.sourcePosition
+    const startColors = toTarget ? particles.sourceColor : particles.targetColor
+    const endColors = toTarget ? particles.targetColor : particles.sourceColor
+    const startSizes = toTarget ? particles.sourceSize : particles.targetSize
+    const endSizes = toTarget ? particles.targetSize : particles.sourceSize
+    const startOpacities = toTarget
+        ? particles.sourceOpacity
+        : particles.targetOpacity
+    const endOpacities = toTarget
+        ? particles.targetOpacity
+        : particles.sourceOpacity
+    const { morphDelay, morphJitter, currentColor, attractorPosition } =
+        particles
+    const particle = choreographyScratch
+    particle.count = particles.count
+    particle.bounds = bounds
+    for (let i = 0; i < particles.count; i++) {
+        const j = i * 3
+        if (spread > 0) {
+            getMorphTiming(
+                plan,
+                THREE.MathUtils.clamp(
+                    (morphProgress - morphDelay[i]) / (1 - spread),
+                    0,
+                    1
+                ),
+                timing
+            )
         }
+        const { totalProgress, colorProgress, phase, phaseProgress } = timing
+        mixColors(
+            mixedColorScratch,
+            fromColorScratch.fromArray(startColors, j),
+            toColorScratch.fromArray(endColors, j),
+            colorProgress,
+            colors.space,
+            colors.huePath
+        ).toArray(currentColor, j)
+        // Springy easings overshoot, which sizes and opacities can't follow
+        const styleProgress = THREE.MathUtils.clamp(totalProgress, 0, 1)
+        particles.currentSize[i] = THREE.MathUtils.lerp(
+            startSizes[i],
+            endSizes[i],
+            styleProgress
+        )
+        particles.currentOpacity[i] = THREE.MathUtils.lerp(
+            startOpacities[i],
+            endOpacities[i],
+            styleProgress
+        )
+        particle.index = i
+        particle.start.fromArray(startPositions, j)
+        particle.end.fromArray(endPositions, j)
+        particle.jitter.fromArray(morphJitter, j)
+        particle.morphProgress = timing.morphProgress
+        choreography.attractor(particle, phaseProgress, phase, attractorScratch)
+        attractorScratch.toArray(attractorPosition, j)
     }
 }
 
@@ -175,21 +2957,58 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
     const {
         sourceImageUrl,
         targetImageUrl,
+        sourceText,
+        targetText,
+        sourceVideoUrl,
+        video,
+        sourceFrameUrls,
+        sequence,
+        sourceModelUrl,
+        targetModelUrl,
+        sourceDepthMapUrl,
+        targetDepthMapUrl,
         morphState,
+        choreography,
+        timing,
+        morphProgress,
+        stagger,
+        colorTransition,
         morphDirection,
         onMorphComplete,
         enablePushForce,
         enableCollisions,
+        assignment,
+        depth,
+        sampling,
+        keying,
+        fit,
+        sizing,
         force,
         lighting,
         appearance,
     } = props
     const mountRef = useRef<HTMLDivElement>(null)
 
-    const particlesRef = useRef<Particle[]>([])
-    const targetParticleDataRef = useRef<
-        { position: THREE.Vector3; color: THREE.Color }[] | null
-    >(null)
+    // Text sources are compared by value so re-created objects don't re-sample
+    const sourceTextKey = sourceText ? JSON.stringify(sourceText) : null
+    const targetTextKey = targetText ? JSON.stringify(targetText) : null
+    const sourceFramesKey = sourceFrameUrls?.length
+        ? JSON.stringify(sourceFrameUrls)
+        : null
+
+    // The fit frame is the visible area of the canvas, or the world size
+    const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 })
+    const visibleSize = getVisibleSize(
+        viewportSize.width,
+        viewportSize.height,
+        props.cameraPosition.z
+    )
+    const frameWidth = fit.mode === "world" ? fit.worldWidth : visibleSize.width
+    const frameHeight =
+        fit.mode === "world" ? fit.worldHeight : visibleSize.height
+
+    const particlesRef = useRef(createParticleBuffers(0))
+    const targetParticleDataRef = useRef<ParticleData[] | null>(null)
     const instancedMeshRef = useRef<THREE.InstancedMesh | null>(null)
     const objectGroupRef = useRef<THREE.Group | null>(null)
     const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
@@ -199,6 +3018,8 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
     const pointLightRef = useRef<THREE.PointLight | null>(null)
     const animationFrameIdRef = useRef<number | null>(null)
     const onMorphCompleteRef = useRef(onMorphComplete)
+    // Last pointer position in world space, the origin for pointer ripples
+    const pointerRef = useRef<THREE.Vector3 | null>(null)
     const mouseInteractionStateRef = useRef<"none" | "bursting" | "attracting">(
         "none"
     )
@@ -256,39 +3077,193 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
         onMorphCompleteRef.current = onMorphComplete
     }, [onMorphComplete])
 
+    // The playing source video and the sampling options for its frames
+    const [sourceVideo, setSourceVideo] = useState<HTMLVideoElement | null>(
+        null
+    )
+    const videoFrameRef = useRef({
+        video: null as HTMLVideoElement | null,
+        options: null as SamplingOptions | null,
+        lastSampleTime: 0,
+        // Created on the first sample and reused by every later one
+        buffers: null as SampleBuffers | null,
+        // Points in the sample the particles were last paired with
+        pairedCount: 0,
+    })
+
+    // Decoded frames of the source sequence and their sampled particle data
+    const [sourceFrames, setSourceFrames] = useState<{
+        frames: SourceImage[]
+        durations: number[]
+    } | null>(null)
+    const frameSequenceRef = useRef({
+        frames: [] as ParticleData[][],
+        durations: [] as number[],
+        index: 0,
+        frameStartTime: 0,
+        isTransitioning: false,
+        // Where the particles were when the current frame was applied, for
+        // the first fromCount of them; reused from frame to frame
+        fromCount: 0,
+        fromPositions: new Float32Array(0),
+        fromColors: new Float32Array(0),
+        fromSizes: new Float32Array(0),
+        fromOpacities: new Float32Array(0),
+    })
+
+    const sizingKeyRef = useRef(JSON.stringify(props.sizing))
+
     const morphStateRef = useRef({
         isMorphing: false,
         startTime: 0,
         direction: null as MorphDirection,
-        duration: 4000,
-        phaseOneDuration: 1300,
-        phaseTwoDuration: 1300,
+        // The plan always runs along pathDirection; a reversed morph plays it
+        // backwards from startProgress so interrupting never jumps
+        pathDirection: "toTarget" as "toTarget" | "toSource",
+        reverse: false,
+        startProgress: 0,
+        progress: 0,
+        // Following morphProgress instead of the clock
+        controlled: false,
+        // A scrubbed morph runs from leaving one end until it reaches either,
+        // heading in `direction`
+        isScrubbing: false,
+        // What the event callbacks were last told
+        phase: -1,
+        reportedProgress: -1,
+        lastProgressEvent: 0,
+        plan: planMorph(
+            createParticleBuffers(0),
+            {
+                choreography: "burst",
+                timing: {
+                    duration: 4000,
+                    phaseDurations: [],
+                    easing: "easeInOutCubic",
+                },
+                stagger: { mode: "none", spread: 0, invert: false },
+                colors: { space: "rgb", huePath: "shorter", start: 0, end: 1 },
+            },
+            "toTarget",
+            null
+        ),
     })
 
+    const announceMorphStart = (direction: "toTarget" | "toSource") => {
+        const currentMorphState = morphStateRef.current
+        currentMorphState.phase = -1
+        currentMorphState.reportedProgress = -1
+        currentMorphState.lastProgressEvent = -Infinity
+        targetPropsRef.current.onMorphStart?.(direction)
+    }
+
+    // Side the particles rest on, or set off from while morphing
+    const getShownSide = (): "source" | "target" => {
+        const { isMorphing, controlled, pathDirection } = morphStateRef.current
+        if (isMorphing || controlled) {
+            return pathDirection === "toTarget" ? "source" : "target"
+        }
+        return targetPropsRef.current.morphState === "target"
+            ? "target"
+            : "source"
+    }
+
+    // Tells both callbacks the running morph won't finish
+    const cancelMorph = () => {
+        const direction = morphStateRef.current.direction!
+        onMorphCompleteRef.current(direction, "cancelled")
+        targetPropsRef.current.onMorphCancel?.(direction)
+    }
+
     const getImageParticleData = useCallback(
         (
-            image: HTMLImageElement,
-            density: number,
-            onComplete: (
-                data: { position: THREE.Vector3; color: THREE.Color }[]
-            ) => void
+            image: SourceImage,
+            options: SamplingOptions,
+            onComplete: (data: ParticleData[]) => void,
+            buffers?: SampleBuffers
         ) => {
-            const data: { position: THREE.Vector3; color: THREE.Color }[] = []
-            const MAX_WIDTH = 400
-            const MAX_HEIGHT = 400
-            let imgWidth = image.width
-            let imgHeight = image.height
+            const {
+                density,
+                count,
+                sampling,
+                keying,
+                depth,
+                depthMap,
+                fit,
+                frame,
+            } = options
+            const data = buffers?.points ?? []
+            const MAX_WIDTH = fit.resolution
+            const MAX_HEIGHT = fit.resolution
+
+            if (
+                sampling.mode === "vector" &&
+                image instanceof HTMLImageElement &&
+                isSvgUrl(image.src)
+            ) {
+                fetch(image.src)
+                    .then((response) => response.text())
+                    .then((svgText) => {
+                        const sampleVector = (spacing: number) =>
+                            getVectorParticleData(
+                                svgText,
+                                spacing,
+                                sampling.vectorFill,
+                                MAX_WIDTH,
+                                MAX_HEIGHT
+                            )
+                        let vectorData = sampleVector(density)
+                        if (count && vectorData.length > 0) {
+                            // Outlines scale with 1 / spacing, fills with
+                            // 1 / spacing^2: resample close to the budget
+                            const exponent = sampling.vectorFill ? 0.5 : 1
+                            const spacing =
+                                density *
+                                (vectorData.length / count) ** exponent
+                            vectorData = fitToCount(
+                                sampleVector(spacing),
+                                count,
+                                spacing
+                            )
+                        }
+                        return fitToFrame(vectorData, null, fit, frame)
+                    })
+                    // Fetch or parse failures report no points; both outcomes
+                    // share one then, so a throwing onComplete isn't rerun
+                    .then(onComplete, () => onComplete([]))
+                return
+            }
+
+            let imgWidth =
+                image instanceof HTMLVideoElement
+                    ? image.videoWidth
+                    : image.width
+            let imgHeight =
+                image instanceof HTMLVideoElement
+                    ? image.videoHeight
+                    : image.height
 
             const ratio = Math.min(MAX_WIDTH / imgWidth, MAX_HEIGHT / imgHeight)
             imgWidth = Math.floor(imgWidth * ratio)
             imgHeight = Math.floor(imgHeight * ratio)
 
-            const canvas = document.createElement("canvas")
-            const context = canvas.getContext("2d")
-            if (!context) return
+            const canvas = buffers?.canvas ?? document.createElement("canvas")
+            const context = canvas.getContext("2d", {
+                willReadFrequently: true,
+            })
+            if (!context) {
+                onComplete([])
+                return
+            }
 
-            canvas.width = imgWidth
-            canvas.height = imgHeight
+            // Resizing clears the canvas, so a reused one of the same size
+            // is cleared by hand
+            if (canvas.width !== imgWidth || canvas.height !== imgHeight) {
+                canvas.width = imgWidth
+                canvas.height = imgHeight
+            } else {
+                context.clearRect(0, 0, imgWidth, imgHeight)
+            }
             context.drawImage(image, 0, 0, imgWidth, imgHeight)
 
             const imageData = context.getImageData(
@@ -298,30 +3273,130 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 imgHeight
             ).data
 
-            for (let y = 0; y < imgHeight; y += density) {
-                for (let x = 0; x < imgWidth; x += density) {
-                    const index = (y * imgWidth + x) * 4
-                    const alpha = imageData[index + 3]
-
-                    if (alpha > 128) {
-                        const posX = x - imgWidth / 2
-                        const posY = -y + imgHeight / 2
-                        const color = new THREE.Color()
-                        color.setRGB(
-                            imageData[index] / 255,
-                            imageData[index + 1] / 255,
-                            imageData[index + 2] / 255
-                        )
+            // The depth map is stretched over the image so both share pixels
+            let depthData: Uint8ClampedArray | null = null
+            if (depth.source === "map" && depthMap) {
+                context.clearRect(0, 0, imgWidth, imgHeight)
+                context.drawImage(depthMap, 0, 0, imgWidth, imgHeight)
+                depthData = context.getImageData(0, 0, imgWidth, imgHeight).data
+            }
 
-                        color.convertSRGBToLinear()
-                        data.push({
-                            position: new THREE.Vector3(posX, posY, 0),
-                            color: color,
-                        })
-                    }
+            const getDepth = (index: number): number => {
+                let value: number
+                if (depth.source === "luminance") {
+                    value = luminance(
+                        imageData[index],
+                        imageData[index + 1],
+                        imageData[index + 2]
+                    )
+                } else if (depth.source === "alpha") {
+                    value = imageData[index + 3] / 255
+                } else if (depthData) {
+                    value = luminance(
+                        depthData[index],
+                        depthData[index + 1],
+                        depthData[index + 2]
+                    )
+                } else {
+                    return 0
+                }
+                if (depth.invert) value = 1 - value
+                return (value - 0.5) * depth.scale
+            }
+
+            const accept = createPixelFilter(
+                imageData,
+                imgWidth,
+                imgHeight,
+                keying
+            )
+            // With a fixed budget, pick the spacing that yields roughly
+            // `count` samples and let fitToCount settle the exact number
+            let spacing = density
+            if (count) {
+                let accepted = 0
+                for (let i = 0; i < imgWidth * imgHeight; i++) {
+                    if (accept(i)) accepted++
                 }
+                spacing = Math.max(1, Math.sqrt(accepted / count))
+            }
+            const step = Math.max(1, Math.floor(spacing))
+
+            const random = createRandom(sampling.seed)
+            let pixels: number[]
+            if (sampling.mode === "poisson") {
+                // Random sequential packing at radius r leaves about
+                // 0.7 / r^2 points per pixel, so shrink r for a budget
+                pixels = samplePoissonDisk(
+                    imgWidth,
+                    imgHeight,
+                    count ? Math.max(1, spacing * 0.8) : spacing,
+                    accept,
+                    random
+                )
+            } else if (sampling.mode === "edges") {
+                pixels = sampleEdges(
+                    imageData,
+                    imgWidth,
+                    imgHeight,
+                    spacing,
+                    sampling.edgeStrength,
+                    accept,
+                    random
+                )
+            } else if (sampling.mode === "dither") {
+                pixels = sampleDither(
+                    imageData,
+                    imgWidth,
+                    imgHeight,
+                    step,
+                    sampling.stippleTone,
+                    accept
+                )
+            } else {
+                pixels = sampleGrid(imgWidth, imgHeight, step, accept)
             }
-            onComplete(data)
+
+            const inkColor =
+                sampling.mode === "dither" && sampling.monochrome
+                    ? new THREE.Color(sampling.inkColor)
+                    : null
+
+            pixels.forEach((pixel, n) => {
+                const x = pixel % imgWidth
+                const y = (pixel - x) / imgWidth
+                const index = pixel * 4
+                const point = reusePoint(data, n)
+                point.position.set(
+                    x - imgWidth / 2,
+                    -y + imgHeight / 2,
+                    getDepth(index)
+                )
+                const color = point.color
+                if (inkColor) {
+                    // THREE.Color parses CSS colors straight into linear space
+                    color.copy(inkColor)
+                } else {
+                    color.setRGB(
+                        imageData[index] / 255,
+                        imageData[index + 1] / 255,
+                        imageData[index + 2] / 255
+                    )
+                    color.convertSRGBToLinear()
+                }
+                point.alpha = imageData[index + 3] / 255
+            })
+            data.length = pixels.length
+            onComplete(
+                fitToFrame(
+                    count
+                        ? fitToCount(data, count, spacing, buffers?.fitted)
+                        : data,
+                    { width: imgWidth, height: imgHeight },
+                    fit,
+                    frame
+                )
+            )
         },
         []
     )
@@ -335,7 +3410,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
 
         sceneRef.current = new THREE.Scene()
         cameraRef.current = new THREE.PerspectiveCamera(
-            75,
+            CAMERA_FOV,
             currentMount.clientWidth / currentMount.clientHeight,
             0.1,
             1000
@@ -392,21 +3467,25 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
             const burstRadius = 150
             const sphereRadius = 120
 
-            particlesRef.current.forEach((p) => {
-                p.mouseBurstPosition
-                    .copy(p.currentPosition)
-                    .add(
-                        new THREE.Vector3(
-                            (Math.random() - 0.5) * burstRadius,
-                            (Math.random() - 0.5) * burstRadius,
-                            (Math.random() - 0.5) * burstRadius
-                        )
-                    )
+            const {
+                currentPosition,
+                mouseBurstPosition,
+                sphereTargetPosition,
+            } = particlesRef.current
+            for (let i = 0; i < particlesRef.current.count; i++) {
+                const j = i * 3
+                for (let k = j; k < j + 3; k++) {
+                    mouseBurstPosition[k] =
+                        currentPosition[k] + (Math.random() - 0.5) * burstRadius
+                }
                 const r = sphereRadius * Math.cbrt(Math.random())
                 const theta = Math.random() * 2 * Math.PI
                 const phi = Math.acos(2 * Math.random() - 1)
-                p.sphereTargetPosition.setFromSphericalCoords(r, phi, theta)
-            })
+                sphereTargetPosition[j] = r * Math.sin(phi) * Math.sin(theta)
+                sphereTargetPosition[j + 1] = r * Math.cos(phi)
+                sphereTargetPosition[j + 2] =
+                    r * Math.sin(phi) * Math.cos(theta)
+            }
         }
         const handlePointerUp = () => {
             mouseInteractionStateRef.current = "none"
@@ -428,9 +3507,12 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
         window.addEventListener("touchend", handlePointerUp)
 
         const mouse3D = new THREE.Vector3()
-        const forceVector = new THREE.Vector3()
-        const returnForce = new THREE.Vector3()
-        const dummy = new THREE.Object3D()
+        // Reused every frame so the loop doesn't allocate
+        const pointer = new THREE.Vector3()
+        const attractTarget = new THREE.Vector3()
+        const targetVector = new THREE.Vector3()
+        const targetColor = new THREE.Color()
+        const baseColor = new THREE.Color()
         const animate = () => {
             animationFrameIdRef.current = requestAnimationFrame(animate)
             if (
@@ -438,17 +3520,18 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 !sceneRef.current ||
                 !rendererRef.current ||
                 !instancedMeshRef.current ||
-                particlesRef.current.length === 0
+                particlesRef.current.count === 0
             )
                 return
 
             const animated = animatedPropsRef.current
             const target = targetPropsRef.current
+            const particles = particlesRef.current
             const lerpFactor = 0.05
 
             // Animate props
             animated.cameraPosition.lerp(
-                new THREE.Vector3(
+                targetVector.set(
                     target.cameraPosition.x,
                     target.cameraPosition.y,
                     target.cameraPosition.z
@@ -472,7 +3555,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
             )
 
             animated.objectPosition.lerp(
-                new THREE.Vector3(
+                targetVector.set(
                     target.objectPosition.x,
                     target.objectPosition.y,
                     target.objectPosition.z
@@ -512,7 +3595,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
             )
 
             animated.lighting.ambientLightColor.lerp(
-                new THREE.Color(target.lighting.ambientLightColor),
+                targetColor.set(target.lighting.ambientLightColor),
                 lerpFactor
             )
             animated.lighting.ambientLightIntensity = THREE.MathUtils.lerp(
@@ -521,7 +3604,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 lerpFactor
             )
             animated.lighting.pointLightColor.lerp(
-                new THREE.Color(target.lighting.pointLightColor),
+                targetColor.set(target.lighting.pointLightColor),
                 lerpFactor
             )
             animated.lighting.pointLightIntensity = THREE.MathUtils.lerp(
@@ -530,7 +3613,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 lerpFactor
             )
             animated.lighting.pointLightPosition.lerp(
-                new THREE.Vector3(
+                targetVector.set(
                     target.lighting.pointLightPosition.x,
                     target.lighting.pointLightPosition.y,
                     target.lighting.pointLightPosition.z
@@ -544,8 +3627,44 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 target.appearance.vibrancy,
                 lerpFactor
             )
-            const vibrancyChanged =
-                Math.abs(animated.appearance.vibrancy - oldVibrancy) > 0.001
+            const oldHueShift = animated.appearance.hueShift
+            animated.appearance.hueShift = THREE.MathUtils.lerp(
+                animated.appearance.hueShift,
+                target.appearance.hueShift,
+                lerpFactor
+            )
+
+            // A new grade fades the current one out, swaps, then fades in
+            let isNewGrade =
+                getGradeKey(animated.appearance) !==
+                getGradeKey(target.appearance)
+            if (
+                isNewGrade &&
+                (animated.appearance.grade === "none" ||
+                    animated.appearance.gradeAmount < 0.01)
+            ) {
+                Object.assign(animated.appearance, {
+                    grade: target.appearance.grade,
+                    palette: target.appearance.palette,
+                    shadowColor: target.appearance.shadowColor,
+                    highlightColor: target.appearance.highlightColor,
+                    posterizeLevels: target.appearance.posterizeLevels,
+                    gradeAmount: 0,
+                })
+                isNewGrade = false
+            }
+            const oldGradeAmount = animated.appearance.gradeAmount
+            animated.appearance.gradeAmount = THREE.MathUtils.lerp(
+                animated.appearance.gradeAmount,
+                isNewGrade ? 0 : target.appearance.gradeAmount,
+                lerpFactor
+            )
+
+            const appearanceChanged =
+                Math.abs(animated.appearance.vibrancy - oldVibrancy) > 0.001 ||
+                Math.abs(animated.appearance.hueShift - oldHueShift) > 0.01 ||
+                Math.abs(animated.appearance.gradeAmount - oldGradeAmount) >
+                    0.001
 
             animated.appearance.exposure = THREE.MathUtils.lerp(
                 animated.appearance.exposure,
@@ -610,287 +3729,434 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
             mouse3D.unproject(cameraRef.current)
             const dir = mouse3D.sub(cameraRef.current.position).normalize()
             const distance = -cameraRef.current.position.z / dir.z
-            const pos = cameraRef.current.position
-                .clone()
-                .add(dir.multiplyScalar(distance))
+            const pos = pointer
+                .copy(cameraRef.current.position)
+                .addScaledVector(dir, distance)
+            if (mouse.x !== -1000) {
+                pointerRef.current = (
+                    pointerRef.current ?? new THREE.Vector3()
+                ).copy(pos)
+            }
 
             let needsColorUpdate = false
+            const now = performance.now()
+            const isShowingSource =
+                target.morphState === "source" &&
+                !morphStateRef.current.isMorphing &&
+                !morphStateRef.current.controlled
+            // A fixed budget keeps points in Hilbert order from frame to
+            // frame, so pairing by index keeps particles in place
+            const frameAssignment: AssignmentMode = target.force
+                .useParticleCount
+                ? "index"
+                : target.assignment
 
-            if (vibrancyChanged) {
-                needsColorUpdate = true
-                particlesRef.current.forEach((p) => {
-                    applyVibrancy(
-                        p.sourceColor.copy(p.sourceBaseColor),
-                        animated.appearance.vibrancy
-                    )
-                    applyVibrancy(
-                        p.targetColor.copy(p.targetBaseColor),
-                        animated.appearance.vibrancy
-                    )
-                    if (!morphStateRef.current.isMorphing) {
-                        if (morphState === "source") {
-                            p.currentColor.copy(p.sourceColor)
+            // Resample the playing video into the source side at sampleRate
+            const videoFrame = videoFrameRef.current
+            if (
+                videoFrame.video &&
+                videoFrame.options &&
+                !videoFrame.video.paused &&
+                now - videoFrame.lastSampleTime >=
+                    1000 / target.video.sampleRate
+            ) {
+                videoFrame.lastSampleTime = now
+                if (!videoFrame.buffers) {
+                    videoFrame.buffers = {
+                        canvas: document.createElement("canvas"),
+                        points: [],
+                        fitted: [],
+                    }
+                }
+                getImageParticleData(
+                    videoFrame.video,
+                    videoFrame.options,
+                    (frameData) => {
+                        // Frames with as many points keep their pairing
+                        if (
+                            frameData.length > 0 &&
+                            frameData.length === videoFrame.pairedCount
+                        ) {
+                            updateParticleData(
+                                particles,
+                                frameData,
+                                "source",
+                                animated.appearance,
+                                target.sizing,
+                                target.force.particleDensity
+                            )
                         } else {
-                            p.currentColor.copy(p.targetColor)
+                            applyParticleData(
+                                particles,
+                                frameData,
+                                "source",
+                                getShownSide(),
+                                frameAssignment,
+                                animated.appearance,
+                                target.sizing,
+                                target.force.particleDensity
+                            )
+                            videoFrame.pairedCount = frameData.length
                         }
+                        if (isShowingSource) {
+                            showSide(particles, "source")
+                            needsColorUpdate = true
+                        }
+                    },
+                    videoFrame.buffers
+                )
+            }
+
+            // Step the frame sequence on its own clock
+            const frameSequence = frameSequenceRef.current
+            const frameCount = frameSequence.frames.length
+            if (frameCount > 1 && target.sequence.playing) {
+                const holdTime =
+                    frameSequence.durations[frameSequence.index] ||
+                    target.sequence.frameDuration
+                const nextIndex = (frameSequence.index + 1) % frameCount
+                // Frames sampled asynchronously may not be ready yet
+                const frameData = frameSequence.frames[nextIndex]
+                if (
+                    frameData &&
+                    now - frameSequence.frameStartTime >= holdTime &&
+                    (nextIndex !== 0 || target.sequence.loop)
+                ) {
+                    frameSequence.index = nextIndex
+                    frameSequence.frameStartTime = now
+                    applyParticleData(
+                        particles,
+                        frameData,
+                        "source",
+                        getShownSide(),
+                        frameAssignment,
+                        animated.appearance,
+                        target.sizing,
+                        target.force.particleDensity
+                    )
+                    // Taken after the new frame is applied, which leaves the
+                    // current state alone but may spawn or remove particles
+                    const { count } = particles
+                    frameSequence.fromCount = count
+                    if (frameSequence.fromSizes.length < count) {
+                        frameSequence.fromPositions = new Float32Array(
+                            count * 3
+                        )
+                        frameSequence.fromColors = new Float32Array(count * 3)
+                        frameSequence.fromSizes = new Float32Array(count)
+                        frameSequence.fromOpacities = new Float32Array(count)
                     }
-                })
+                    frameSequence.fromPositions.set(
+                        particles.attractorPosition.subarray(0, count * 3)
+                    )
+                    frameSequence.fromColors.set(
+                        particles.currentColor.subarray(0, count * 3)
+                    )
+                    frameSequence.fromSizes.set(
+                        particles.currentSize.subarray(0, count)
+                    )
+                    frameSequence.fromOpacities.set(
+                        particles.currentOpacity.subarray(0, count)
+                    )
+                    frameSequence.isTransitioning =
+                        target.sequence.transition === "morph"
+                    if (isShowingSource && !frameSequence.isTransitioning) {
+                        // The return force carries particles to the new frame
+                        showSide(particles, "source")
+                        needsColorUpdate = true
+                    }
+                }
+            }
+
+            if (frameSequence.isTransitioning && isShowingSource) {
+                const progress = Math.min(
+                    1,
+                    (now - frameSequence.frameStartTime) /
+                        Math.max(1, target.sequence.transitionDuration)
+                )
+                const eased = easeInOutCubic(progress)
+                const {
+                    fromCount,
+                    fromPositions,
+                    fromColors,
+                    fromSizes,
+                    fromOpacities,
+                } = frameSequence
+                // Particles spawned since the frame was taken have no start
+                const count = Math.min(particles.count, fromCount)
+                for (let j = 0; j < count * 3; j++) {
+                    particles.attractorPosition[j] = THREE.MathUtils.lerp(
+                        fromPositions[j],
+                        particles.sourcePosition[j],
+                        eased
+                    )
+                    particles.currentColor[j] = THREE.MathUtils.lerp(
+                        fromColors[j],
+                        particles.sourceColor[j],
+                        eased
+                    )
+                }
+                for (let i = 0; i < count; i++) {
+                    particles.currentSize[i] = THREE.MathUtils.lerp(
+                        fromSizes[i],
+                        particles.sourceSize[i],
+                        eased
+                    )
+                    particles.currentOpacity[i] = THREE.MathUtils.lerp(
+                        fromOpacities[i],
+                        particles.sourceOpacity[i],
+                        eased
+                    )
+                }
+                frameSequence.isTransitioning = progress < 1
+                needsColorUpdate = true
+            }
+
+            // Size settings aren't interpolated, sizes are re-derived at once
+            const sizingKey = JSON.stringify(target.sizing)
+            const sizingChanged = sizingKey !== sizingKeyRef.current
+            sizingKeyRef.current = sizingKey
+
+            if (appearanceChanged || sizingChanged) {
+                needsColorUpdate = true
+                for (let i = 0; i < particles.count; i++) {
+                    const j = i * 3
+                    applyAppearance(
+                        baseColor.fromArray(particles.sourceBaseColor, j),
+                        animated.appearance
+                    ).toArray(particles.sourceColor, j)
+                    applyAppearance(
+                        baseColor.fromArray(particles.targetBaseColor, j),
+                        animated.appearance
+                    ).toArray(particles.targetColor, j)
+                    particles.sourceSize[i] = particles.hasSource[i]
+                        ? getSizeFactor(
+                              baseColor.fromArray(particles.sourceBaseColor, j),
+                              particles.sourceAlpha[i],
+                              target.sizing
+                          )
+                        : 0
+                    particles.targetSize[i] = particles.hasTarget[i]
+                        ? getSizeFactor(
+                              baseColor.fromArray(particles.targetBaseColor, j),
+                              particles.targetAlpha[i],
+                              target.sizing
+                          )
+                        : 0
+                    particles.sourceOpacity[i] = particles.hasSource[i]
+                        ? getOpacity(particles.sourceAlpha[i], target.sizing)
+                        : 0
+                    particles.targetOpacity[i] = particles.hasTarget[i]
+                        ? getOpacity(particles.targetAlpha[i], target.sizing)
+                        : 0
+                }
+                if (
+                    !morphStateRef.current.isMorphing &&
+                    !morphStateRef.current.controlled
+                ) {
+                    showParticleStyle(
+                        particles,
+                        morphState === "source" ? "source" : "target"
+                    )
+                }
+            }
+
+            // New data may have spawned or removed particles
+            if (
+                particles.count > instancedMeshRef.current.instanceMatrix.count
+            ) {
+                const mesh = createParticleMesh(
+                    particles,
+                    Math.ceil(particles.count * 1.25)
+                )
+                disposeParticleMesh(instancedMeshRef.current)
+                objectGroupRef.current?.add(mesh)
+                instancedMeshRef.current = mesh
+            }
+            if (instancedMeshRef.current.count !== particles.count) {
+                instancedMeshRef.current.count = particles.count
+                needsColorUpdate = true
             }
-            
+
             const mouseState = mouseInteractionStateRef.current
             const mouseInteractionBurstDuration = 400
 
             if (mouseState !== "none") {
                 const interactionElapsedTime =
                     performance.now() - mouseInteractionStartTimeRef.current
-                particlesRef.current.forEach((p, i) => {
-                    let targetPosition: THREE.Vector3 | null = null
-                    let lerpFactor = 0.04
-                    if (mouseState === "bursting") {
-                        if (
-                            interactionElapsedTime >
-                            mouseInteractionBurstDuration
-                        ) {
-                            mouseInteractionStateRef.current = "attracting"
-                        }
-                        targetPosition = p.mouseBurstPosition
-                        lerpFactor = 0.08
-                    } else if (mouseState === "attracting") {
-                        targetPosition = pos.clone().add(p.sphereTargetPosition)
-                        lerpFactor = 0.04
-                    }
-                    if (targetPosition) {
-                        const oldPosition = p.currentPosition.clone()
-                        p.currentPosition.lerp(targetPosition, lerpFactor)
-                        p.velocity.subVectors(p.currentPosition, oldPosition)
-                        dummy.position.copy(p.currentPosition)
-                        dummy.updateMatrix()
-                        instancedMeshRef.current!.setMatrixAt(i, dummy.matrix)
+                const isBursting = mouseState === "bursting"
+                if (
+                    isBursting &&
+                    interactionElapsedTime > mouseInteractionBurstDuration
+                ) {
+                    mouseInteractionStateRef.current = "attracting"
+                }
+                const lerpFactor = isBursting ? 0.08 : 0.04
+                const {
+                    currentPosition,
+                    velocity,
+                    mouseBurstPosition,
+                    sphereTargetPosition,
+                } = particles
+                for (let i = 0; i < particles.count; i++) {
+                    const j = i * 3
+                    if (isBursting) {
+                        attractTarget.fromArray(mouseBurstPosition, j)
+                    } else {
+                        attractTarget
+                            .fromArray(sphereTargetPosition, j)
+                            .add(pos)
                     }
-                })
-                instancedMeshRef.current!.instanceMatrix.needsUpdate = true
+                    velocity[j] =
+                        (attractTarget.x - currentPosition[j]) * lerpFactor
+                    velocity[j + 1] =
+                        (attractTarget.y - currentPosition[j + 1]) * lerpFactor
+                    velocity[j + 2] =
+                        (attractTarget.z - currentPosition[j + 2]) * lerpFactor
+                    currentPosition[j] += velocity[j]
+                    currentPosition[j + 1] += velocity[j + 1]
+                    currentPosition[j + 2] += velocity[j + 2]
+                }
+                writeParticleInstances(
+                    particles,
+                    instancedMeshRef.current,
+                    animated.force.particleSize,
+                    false
+                )
                 rendererRef.current.render(sceneRef.current, cameraRef.current)
                 return
             }
 
-
             const currentMorphState = morphStateRef.current
-            if (currentMorphState.isMorphing) {
-                const elapsedTime =
-                    performance.now() - currentMorphState.startTime
-                const {
-                    duration,
-                    phaseOneDuration,
-                    phaseTwoDuration,
-                    direction,
-                } = currentMorphState
-                const phaseTwoEndTime = phaseOneDuration + phaseTwoDuration
-
-                if (elapsedTime >= duration) {
-                    particlesRef.current.forEach((p) => {
-                        p.attractorPosition.copy(
-                            direction === "toTarget"
-                                ? p.targetPosition
-                                : p.sourcePosition
-                        )
-                        p.currentColor.copy(
-                            direction === "toTarget"
-                                ? p.targetColor
-                                : p.sourceColor
-                        )
-                    })
-                    currentMorphState.isMorphing = false
-                    onMorphCompleteRef.current(direction!)
-                    needsColorUpdate = true
-                } else {
-                    const sphereRadius = 180
-                    const totalProgress = easeInOutCubic(elapsedTime / duration)
-                    particlesRef.current.forEach((p, i) => {
-                        const startColor =
-                            direction === "toTarget"
-                                ? p.sourceColor
-                                : p.targetColor
-                        const endColor =
-                            direction === "toTarget"
-                                ? p.targetColor
-                                : p.sourceColor
-                        p.currentColor
-                            .copy(startColor)
-                            .lerp(endColor, totalProgress)
-                        needsColorUpdate = true
-                        const currentStartPos =
-                            direction === "toTarget"
-                                ? p.sourcePosition
-                                : p.targetPosition
-                        const currentEndPos =
-                            direction === "toTarget"
-                                ? p.targetPosition
-                                : p.sourcePosition
-                        const phi = Math.acos(
-                            -1 + (2 * i) / particlesRef.current.length
-                        )
-                        const theta =
-                            Math.sqrt(particlesRef.current.length * Math.PI) *
-                            phi
-                        const spherePos =
-                            new THREE.Vector3().setFromSphericalCoords(
-                                sphereRadius,
-                                phi,
-                                theta
-                            )
-
-                        if (elapsedTime < phaseOneDuration) {
-                            const progress = easeInOutCubic(
-                                elapsedTime / phaseOneDuration
-                            )
-                            p.attractorPosition.lerpVectors(
-                                currentStartPos,
-                                p.burstPosition,
-                                progress
-                            )
-                        } else if (elapsedTime < phaseTwoEndTime) {
-                            const progress = easeInOutCubic(
-                                (elapsedTime - phaseOneDuration) /
-                                    phaseTwoDuration
-                            )
-                            p.attractorPosition.lerpVectors(
-                                p.burstPosition,
-                                spherePos,
-                                progress
-                            )
-                        } else {
-                            const phaseThreeDuration =
-                                duration - phaseTwoEndTime
-                            const progress = easeInOutCubic(
-                                (elapsedTime - phaseTwoEndTime) /
-                                    phaseThreeDuration
-                            )
-                            const intermediatePos =
-                                new THREE.Vector3().lerpVectors(
-                                    spherePos,
-                                    currentEndPos,
-                                    progress
-                                )
-                            const travelVector = new THREE.Vector3().subVectors(
-                                currentEndPos,
-                                spherePos
-                            )
-                            const swirlAxis = new THREE.Vector3(
-                                0.3,
-                                -0.4,
-                                0.8
-                            ).normalize()
-                            const perpendicular = new THREE.Vector3()
-                                .crossVectors(travelVector, swirlAxis)
-                                .normalize()
-                            if (perpendicular.lengthSq() < 0.1) {
-                                perpendicular.set(0, 1, 0)
-                            }
-                            const swirlAmplitude =
-                                travelVector.length() *
-                                0.3 *
-                                Math.sin(progress * Math.PI)
-                            const swirlOffset =
-                                perpendicular.multiplyScalar(swirlAmplitude)
-                            p.attractorPosition
-                                .copy(intermediatePos)
-                                .add(swirlOffset)
-                        }
-                    })
+            // Phases are reported as they change, progress is throttled
+            const reportMorphFrame = (
+                pathProgress: number,
+                progress: number
+            ) => {
+                const { plan } = currentMorphState
+                const { phase } = getPhaseProgress(
+                    plan.phaseDurations,
+                    pathProgress,
+                    phaseScratch
+                )
+                if (phase !== currentMorphState.phase) {
+                    currentMorphState.phase = phase
+                    target.onMorphPhaseChange?.(
+                        plan.choreography.phaseNames[phase],
+                        phase
+                    )
+                }
+                if (
+                    progress !== currentMorphState.reportedProgress &&
+                    (progress === 1 ||
+                        now - currentMorphState.lastProgressEvent >=
+                            PROGRESS_EVENT_INTERVAL)
+                ) {
+                    currentMorphState.reportedProgress = progress
+                    currentMorphState.lastProgressEvent = now
+                    target.onMorphProgress?.(progress)
                 }
             }
-
-            const {
-                returnStrength,
-                damping,
-                pushRadius,
-                pushStrength,
-                particleSize,
-            } = animated.force
-
-            if (target.enablePushForce && mouseInteractionStateRef.current === "none" && pushRadius > 0) {
-                const pushRadiusSq = pushRadius * pushRadius
-                const gridCellSize = pushRadius
-                const grid: Map<string, Particle[]> = new Map()
-                const getCellKey = (v: THREE.Vector3) =>
-                    `${Math.floor(v.x / gridCellSize)}_${Math.floor(
-                        v.y / gridCellSize
-                    )}_${Math.floor(v.z / gridCellSize)}`
-
-                for (const p of particlesRef.current) {
-                    const key = getCellKey(p.currentPosition)
-                    if (!grid.has(key)) grid.set(key, [])
-                    grid.get(key)!.push(p)
+            const scrubProgress = currentMorphState.controlled
+                ? readMorphProgress(target.morphProgress)
+                : null
+            if (scrubProgress !== null) {
+                const previousProgress = currentMorphState.progress
+                currentMorphState.progress = scrubProgress
+                // Data can land while scrubbing, so keep the bounds current
+                getMorphBounds(particles, currentMorphState.plan.bounds)
+                stepMorph(
+                    particles,
+                    currentMorphState.plan,
+                    "toTarget",
+                    scrubProgress
+                )
+                reportMorphFrame(scrubProgress, scrubProgress)
+                const isAtEnd = scrubProgress === 0 || scrubProgress === 1
+                if (!currentMorphState.isScrubbing && !isAtEnd) {
+                    const direction =
+                        scrubProgress < previousProgress
+                            ? "toSource"
+                            : "toTarget"
+                    currentMorphState.isScrubbing = true
+                    currentMorphState.direction = direction
+                    announceMorphStart(direction)
+                } else if (currentMorphState.isScrubbing && isAtEnd) {
+                    // Arriving back where it set off undoes the morph
+                    currentMorphState.isScrubbing = false
+                    const { direction } = currentMorphState
+                    if ((scrubProgress === 1) === (direction === "toTarget")) {
+                        onMorphCompleteRef.current(direction!, "finished")
+                    } else {
+                        cancelMorph()
+                    }
                 }
+                needsColorUpdate = true
+            } else if (currentMorphState.isMorphing) {
+                const { plan, direction, pathDirection, reverse } =
+                    currentMorphState
+                const elapsed =
+                    (performance.now() - currentMorphState.startTime) /
+                    plan.duration
+                const progress = THREE.MathUtils.clamp(
+                    currentMorphState.startProgress +
+                        (reverse ? -elapsed : elapsed),
+                    0,
+                    1
+                )
+                currentMorphState.progress = progress
+                reportMorphFrame(progress, reverse ? 1 - progress : progress)
 
-                const mouseX = Math.floor(pos.x / gridCellSize)
-                const mouseY = Math.floor(pos.y / gridCellSize)
-                const mouseZ = Math.floor(pos.z / gridCellSize)
-
-                for (let dx = -1; dx <= 1; dx++) {
-                    for (let dy = -1; dy <= 1; dy++) {
-                        for (let dz = -1; dz <= 1; dz++) {
-                            const key = `${mouseX + dx}_${mouseY + dy}_${
-                                mouseZ + dz
-                            }`
-                            const cell = grid.get(key)
-                            if (cell) {
-                                for (const p of cell) {
-                                    const distanceSq =
-                                        p.currentPosition.distanceToSquared(pos)
-                                    if (
-                                        distanceSq > 1e-6 &&
-                                        distanceSq < pushRadiusSq
-                                    ) {
-                                        const distance = Math.sqrt(distanceSq)
-                                        const strength =
-                                            (((pushRadius - distance) /
-                                                pushRadius) *
-                                                pushStrength) /
-                                            distance
-                                        forceVector
-                                            .subVectors(p.currentPosition, pos)
-                                            .multiplyScalar(strength)
-                                        p.velocity.add(forceVector)
-                                    }
-                                }
-                            }
-                        }
-                    }
+                if (reverse ? progress <= 0 : progress >= 1) {
+                    showSide(
+                        particles,
+                        direction === "toTarget" ? "target" : "source"
+                    )
+                    currentMorphState.isMorphing = false
+                    onMorphCompleteRef.current(direction!, "finished")
+                    needsColorUpdate = true
+                } else {
+                    stepMorph(particles, plan, pathDirection, progress)
+                    needsColorUpdate = true
                 }
             }
 
-            // First loop: apply forces & update positions
-            for (let i = 0; i < particlesRef.current.length; i++) {
-                const p = particlesRef.current[i]
-                returnForce
-                    .subVectors(p.attractorPosition, p.currentPosition)
-                    .multiplyScalar(returnStrength)
-                p.velocity.add(returnForce)
-                p.velocity.multiplyScalar(damping)
-                p.currentPosition.add(p.velocity)
-            }
+            const { pushRadius, particleSize } = animated.force
+            const pushPointer =
+                target.enablePushForce &&
+                mouseInteractionStateRef.current === "none" &&
+                pushRadius > 0
+                    ? pos
+                    : null
+            stepParticlePhysics(particles, animated.force, pushPointer)
 
             // Handle collisions
             if (target.enableCollisions) {
-                handleCollisions(particlesRef.current, particleSize)
+                handleCollisions(particles, particleSize)
             }
 
-            // Second loop: update mesh
-            for (let i = 0; i < particlesRef.current.length; i++) {
-                const p = particlesRef.current[i]
-                if (needsColorUpdate) {
-                    instancedMeshRef.current.setColorAt(i, p.currentColor)
+            writeParticleInstances(
+                particles,
+                instancedMeshRef.current,
+                particleSize,
+                needsColorUpdate
+            )
+            // Particles showing only one side fade in or out
+            let isSpawning = false
+            for (let i = 0; i < particles.count; i++) {
+                if (!particles.hasSource[i] || !particles.hasTarget[i]) {
+                    isSpawning = true
+                    break
                 }
-                dummy.position.copy(p.currentPosition)
-                dummy.scale.set(particleSize, particleSize, particleSize)
-                dummy.updateMatrix()
-                instancedMeshRef.current.setMatrixAt(i, dummy.matrix)
             }
 
-            instancedMeshRef.current.instanceMatrix.needsUpdate = true
-            if (needsColorUpdate) {
-                instancedMeshRef.current.instanceColor!.needsUpdate = true
+            // Opacity needs blending, which is only switched on while used:
+            // for sampled alpha, or for particles fading in and out
+            const material = instancedMeshRef.current.material as THREE.Material
+            const isTransparent = target.sizing.alphaOpacity || isSpawning
+            if (material.transparent !== isTransparent) {
+                material.transparent = isTransparent
+                material.needsUpdate = true
             }
 
             rendererRef.current.render(sceneRef.current, cameraRef.current)
@@ -905,6 +4171,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
             rendererRef.current.setSize(width, height)
             cameraRef.current.aspect = width / height
             cameraRef.current.updateProjectionMatrix()
+            setViewportSize({ width, height })
         }
 
         const resizeObserver = new ResizeObserver(handleResize)
@@ -924,284 +4191,463 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
                 cancelAnimationFrame(animationFrameIdRef.current)
             }
         }
-    }, [enablePushForce])
+    }, [enablePushForce])
+
+    useEffect(() => {
+        if (!sourceVideoUrl) return
+        const element = document.createElement("video")
+        element.crossOrigin = "anonymous"
+        element.muted = true
+        element.playsInline = true
+        element.preload = "auto"
+        const handleLoadedData = () => setSourceVideo(element)
+        element.addEventListener("loadeddata", handleLoadedData, { once: true })
+        element.src = sourceVideoUrl
+
+        return () => {
+            element.removeEventListener("loadeddata", handleLoadedData)
+            element.pause()
+            element.removeAttribute("src")
+            element.load()
+            setSourceVideo(null)
+        }
+    }, [sourceVideoUrl])
+
+    useEffect(() => {
+        if (!sourceVideo) return
+        sourceVideo.loop = video.loop
+        sourceVideo.playbackRate = video.playbackRate
+        if (video.playing) {
+            // Autoplay can be refused; the particles then keep the last frame
+            sourceVideo.play().catch(() => {})
+        } else {
+            sourceVideo.pause()
+        }
+    }, [sourceVideo, video.playing, video.loop, video.playbackRate])
+
+    useEffect(() => {
+        if (!sourceFramesKey) return
+        let isCancelled = false
+        loadFrameSequence(JSON.parse(sourceFramesKey), (frames, durations) => {
+            if (!isCancelled && frames.length > 0) {
+                setSourceFrames({ frames, durations })
+            }
+        })
+
+        return () => {
+            isCancelled = true
+            setSourceFrames(null)
+        }
+    }, [sourceFramesKey])
 
     useEffect(() => {
-        const loader = new THREE.ImageLoader()
-        loader.setCrossOrigin("Anonymous")
-        loader.load(sourceImageUrl, (image) => {
-            getImageParticleData(image, force.particleDensity, (sourceData) => {
-                if (sourceData.length === 0) return
-
-                if (!instancedMeshRef.current) {
-                    // --- INITIAL LOAD ---
-                    particlesRef.current = sourceData.map((data, i) => {
-                        const vibrantColor = applyVibrancy(
-                            data.color.clone(),
-                            appearance.vibrancy
-                        )
-                        return {
-                            id: i,
-                            currentPosition: data.position.clone(),
-                            sourcePosition: data.position.clone(),
-                            targetPosition: data.position.clone(),
-                            velocity: new THREE.Vector3(0, 0, 0),
-                            currentColor: vibrantColor.clone(),
-                            sourceColor: vibrantColor.clone(),
-                            targetColor: vibrantColor.clone(),
-                            sourceBaseColor: data.color.clone(),
-                            targetBaseColor: data.color.clone(),
-                            attractorPosition: data.position.clone(),
-                            burstPosition: new THREE.Vector3(),
-                            sphereTargetPosition: new THREE.Vector3(),
-                            mouseBurstPosition: new THREE.Vector3(),
-                        }
-                    })
+        const depthMapUrl = depth.source === "map" ? sourceDepthMapUrl : null
+        const source =
+            sourceText ??
+            (sourceVideoUrl
+                ? sourceVideo
+                : sourceFramesKey
+                  ? sourceFrames?.frames[0]
+                  : (sourceModelUrl ?? sourceImageUrl))
+        if (!source) return
+        const count = force.useParticleCount ? force.particleCount : null
+        // Wait until the canvas has been measured
+        if (!frameWidth || !frameHeight) return
+        const frame = { width: frameWidth, height: frameHeight }
+        // Loads started before the source changed again are dropped
+        let isCancelled = false
+        const handleSourceData = (sourceData: ParticleData[]) => {
+            if (isCancelled) return
+            if (sourceData.length === 0) {
+                targetPropsRef.current.onDataLoad?.("source", false)
+                return
+            }
 
-                    const particleCount = particlesRef.current.length
-                    const particleGeometry = new THREE.SphereGeometry(
-                        0.75,
-                        8,
-                        6
-                    )
-                    const particleMaterial = new THREE.MeshStandardMaterial({})
-                    instancedMeshRef.current = new THREE.InstancedMesh(
-                        particleGeometry,
-                        particleMaterial,
-                        particleCount
-                    )
-                    instancedMeshRef.current.instanceMatrix.setUsage(
-                        THREE.DynamicDrawUsage
-                    )
+            // A new particle budget needs a mesh of the new size
+            const mesh = instancedMeshRef.current
+            if (mesh && count && mesh.count !== sourceData.length) {
+                disposeParticleMesh(mesh)
+                instancedMeshRef.current = null
+            }
 
-                    const dummy = new THREE.Object3D()
-                    for (let i = 0; i < particleCount; i++) {
-                        const p = particlesRef.current[i]
-                        dummy.position.copy(p.currentPosition)
-                        dummy.updateMatrix()
-                        instancedMeshRef.current.setMatrixAt(i, dummy.matrix)
-                        instancedMeshRef.current.setColorAt(i, p.currentColor)
-                    }
-                    objectGroupRef.current?.add(instancedMeshRef.current)
-                } else {
-                    // --- UPDATE SOURCE IMAGE ---
-                    const existingParticles = particlesRef.current
-                    const numParticles = Math.min(
-                        existingParticles.length,
-                        sourceData.length
+            if (!instancedMeshRef.current) {
+                // --- INITIAL LOAD ---
+                particlesRef.current = createParticles(
+                    sourceData,
+                    appearance,
+                    sizing
+                )
+                instancedMeshRef.current = createParticleMesh(
+                    particlesRef.current,
+                    particlesRef.current.count
+                )
+                objectGroupRef.current?.add(instancedMeshRef.current)
+
+                if (targetParticleDataRef.current) {
+                    applyParticleData(
+                        particlesRef.current,
+                        targetParticleDataRef.current,
+                        "target",
+                        "source",
+                        assignment,
+                        appearance,
+                        sizing,
+                        force.particleDensity
                     )
+                }
+            } else {
+                // --- UPDATE SOURCE IMAGE ---
+                const existingParticles = particlesRef.current
+                applyParticleData(
+                    existingParticles,
+                    sourceData,
+                    "source",
+                    getShownSide(),
+                    assignment,
+                    appearance,
+                    sizing,
+                    force.particleDensity
+                )
 
-                    for (let i = 0; i < numParticles; i++) {
-                        existingParticles[i].sourcePosition.copy(
-                            sourceData[i].position
-                        )
-                        existingParticles[i].sourceBaseColor.copy(
-                            sourceData[i].color
-                        )
-                        applyVibrancy(
-                            existingParticles[i].sourceColor.copy(
-                                sourceData[i].color
-                            ),
-                            appearance.vibrancy
-                        )
-                    }
-                    if (existingParticles.length > numParticles) {
-                        for (
-                            let i = numParticles;
-                            i < existingParticles.length;
-                            i++
-                        ) {
-                            const sourceIndex = i % numParticles
-                            existingParticles[i].sourcePosition.copy(
-                                sourceData[sourceIndex].position
-                            )
-                            existingParticles[i].sourceBaseColor.copy(
-                                sourceData[sourceIndex].color
-                            )
-                            applyVibrancy(
-                                existingParticles[i].sourceColor.copy(
-                                    sourceData[sourceIndex].color
-                                ),
-                                appearance.vibrancy
-                            )
-                        }
+                if (
+                    morphState === "source" &&
+                    !morphStateRef.current.isMorphing &&
+                    !morphStateRef.current.controlled
+                ) {
+                    showSide(existingParticles, "source")
+                    if (instancedMeshRef.current) {
+                        instancedMeshRef.current.instanceColor!.needsUpdate = true
                     }
+                }
+            }
+            targetPropsRef.current.onDataLoad?.("source", true)
+        }
 
-                    if (
-                        morphState === "source" &&
-                        !morphStateRef.current.isMorphing
-                    ) {
-                        existingParticles.forEach((p) => {
-                            p.attractorPosition.copy(p.sourcePosition)
-                            p.currentColor.copy(p.sourceColor)
-                        })
-                        if (instancedMeshRef.current) {
-                            instancedMeshRef.current.instanceColor!.needsUpdate =
-                                true
-                        }
-                    }
+        if (source === sourceModelUrl) {
+            videoFrameRef.current.video = null
+            frameSequenceRef.current.frames = []
+            loadModel(sourceModelUrl, (object) => {
+                if (!object) {
+                    handleSourceData([])
+                    return
                 }
+                const modelData = getModelParticleData(
+                    object,
+                    fit.resolution,
+                    force.particleDensity,
+                    count,
+                    sampling.modelPoints,
+                    sampling.seed
+                )
+                handleSourceData(fitToFrame(modelData, null, fit, frame))
             })
+            return () => {
+                isCancelled = true
+            }
+        }
+
+        loadWithDepthMap(source, depthMapUrl, (image, depthMap) => {
+            if (!image) {
+                handleSourceData([])
+                return
+            }
+            const options = {
+                density: force.particleDensity,
+                count,
+                sampling,
+                keying,
+                depth,
+                depthMap,
+                fit,
+                frame,
+            }
+            videoFrameRef.current.video =
+                image instanceof HTMLVideoElement ? image : null
+            videoFrameRef.current.options = options
+            videoFrameRef.current.pairedCount = 0
+
+            // Sample every frame up front so playback only swaps data
+            const frameSequence = frameSequenceRef.current
+            frameSequence.frames = []
+            frameSequence.index = 0
+            frameSequence.frameStartTime = performance.now()
+            frameSequence.isTransitioning = false
+            if (sourceFrames && image === sourceFrames.frames[0]) {
+                frameSequence.durations = sourceFrames.durations
+                sourceFrames.frames.forEach((frame, i) =>
+                    getImageParticleData(frame, options, (frameData) => {
+                        frameSequence.frames[i] = frameData
+                    })
+                )
+            }
+            getImageParticleData(image, options, handleSourceData)
         })
+
+        return () => {
+            isCancelled = true
+        }
     }, [
         sourceImageUrl,
+        sourceTextKey,
+        sourceVideoUrl,
+        sourceVideo,
+        sourceFramesKey,
+        sourceFrames,
+        sourceModelUrl,
+        sourceDepthMapUrl,
+        depth.source,
+        depth.scale,
+        depth.invert,
+        sampling.mode,
+        sampling.edgeStrength,
+        sampling.seed,
+        sampling.stippleTone,
+        sampling.monochrome,
+        sampling.inkColor,
+        sampling.vectorFill,
+        sampling.modelPoints,
+        keying.alphaThreshold,
+        keying.mode,
+        keying.keyColor,
+        keying.lumaKey,
+        keying.tolerance,
+        fit.resolution,
+        fit.mode,
+        fit.sharedFrame,
+        frameWidth,
+        frameHeight,
         force.particleDensity,
+        force.useParticleCount,
+        force.particleCount,
         getImageParticleData,
         morphState,
         appearance.vibrancy,
+        assignment,
     ])
 
     useEffect(() => {
-        if (targetImageUrl) {
-            const loader = new THREE.ImageLoader()
-            loader.setCrossOrigin("Anonymous")
-            loader.load(targetImageUrl, (image) => {
-                getImageParticleData(
-                    image,
-                    force.particleDensity,
-                    (targetData) => {
-                        targetParticleDataRef.current = targetData
-                        if (
-                            targetData.length === 0 ||
-                            particlesRef.current.length === 0
-                        )
-                            return
+        const target = targetText ?? targetModelUrl ?? targetImageUrl
+        if (target) {
+            const count = force.useParticleCount ? force.particleCount : null
+            if (!frameWidth || !frameHeight) return
+            const frame = { width: frameWidth, height: frameHeight }
+            // Loads started before the target changed again are dropped
+            let isCancelled = false
+            const handleTargetData = (targetData: ParticleData[]) => {
+                if (isCancelled) return
+                targetParticleDataRef.current = targetData
+                if (targetData.length === 0) {
+                    targetPropsRef.current.onDataLoad?.("target", false)
+                    return
+                }
+                // Without particles yet, the source load applies the data
+                if (particlesRef.current.count === 0) {
+                    targetPropsRef.current.onDataLoad?.("target", true)
+                    return
+                }
 
-                        // --- UPDATE TARGET IMAGE ---
-                        const existingParticles = particlesRef.current
-                        const numParticles = Math.min(
-                            existingParticles.length,
-                            targetData.length
-                        )
+                // --- UPDATE TARGET IMAGE ---
+                const existingParticles = particlesRef.current
+                applyParticleData(
+                    existingParticles,
+                    targetData,
+                    "target",
+                    getShownSide(),
+                    assignment,
+                    appearance,
+                    sizing,
+                    force.particleDensity
+                )
 
-                        for (let i = 0; i < numParticles; i++) {
-                            existingParticles[i].targetPosition.copy(
-                                targetData[i].position
-                            )
-                            existingParticles[i].targetBaseColor.copy(
-                                targetData[i].color
-                            )
-                            applyVibrancy(
-                                existingParticles[i].targetColor.copy(
-                                    targetData[i].color
-                                ),
-                                appearance.vibrancy
-                            )
-                        }
-                        if (existingParticles.length > numParticles) {
-                            for (
-                                let i = numParticles;
-                                i < existingParticles.length;
-                                i++
-                            ) {
-                                const targetIndex = i % numParticles
-                                existingParticles[i].targetPosition.copy(
-                                    targetData[targetIndex].position
-                                )
-                                existingParticles[i].targetBaseColor.copy(
-                                    targetData[targetIndex].color
-                                )
-                                applyVibrancy(
-                                    existingParticles[i].targetColor.copy(
-                                        targetData[targetIndex].color
-                                    ),
-                                    appearance.vibrancy
-                                )
-                            }
-                        }
+                if (
+                    morphState === "target" &&
+                    !morphStateRef.current.isMorphing &&
+                    !morphStateRef.current.controlled
+                ) {
+                    showSide(existingParticles, "target")
+                    if (instancedMeshRef.current) {
+                        instancedMeshRef.current.instanceColor!.needsUpdate = true
+                    }
+                }
+                targetPropsRef.current.onDataLoad?.("target", true)
+            }
 
-                        if (
-                            morphState === "target" &&
-                            !morphStateRef.current.isMorphing
-                        ) {
-                            existingParticles.forEach((p) => {
-                                p.attractorPosition.copy(p.targetPosition)
-                                p.currentColor.copy(p.targetColor)
-                            })
-                            if (instancedMeshRef.current) {
-                                instancedMeshRef.current.instanceColor!.needsUpdate =
-                                    true
-                            }
-                        }
+            if (target === targetModelUrl) {
+                loadModel(targetModelUrl, (object) => {
+                    if (!object) {
+                        handleTargetData([])
+                        return
                     }
-                )
+                    const modelData = getModelParticleData(
+                        object,
+                        fit.resolution,
+                        force.particleDensity,
+                        count,
+                        sampling.modelPoints,
+                        sampling.seed
+                    )
+                    handleTargetData(fitToFrame(modelData, null, fit, frame))
+                })
+                return () => {
+                    isCancelled = true
+                }
+            }
+
+            const depthMapUrl =
+                depth.source === "map" ? targetDepthMapUrl : null
+            loadWithDepthMap(target, depthMapUrl, (image, depthMap) => {
+                if (!image) {
+                    handleTargetData([])
+                    return
+                }
+                const options = {
+                    density: force.particleDensity,
+                    count,
+                    sampling,
+                    keying,
+                    depth,
+                    depthMap,
+                    fit,
+                    frame,
+                }
+                getImageParticleData(image, options, handleTargetData)
             })
+
+            return () => {
+                isCancelled = true
+            }
         }
     }, [
         targetImageUrl,
+        targetModelUrl,
+        targetTextKey,
+        targetDepthMapUrl,
+        depth.source,
+        depth.scale,
+        depth.invert,
+        sampling.mode,
+        sampling.edgeStrength,
+        sampling.seed,
+        sampling.stippleTone,
+        sampling.monochrome,
+        sampling.inkColor,
+        sampling.vectorFill,
+        sampling.modelPoints,
+        keying.alphaThreshold,
+        keying.mode,
+        keying.keyColor,
+        keying.lumaKey,
+        keying.tolerance,
+        fit.resolution,
+        fit.mode,
+        fit.sharedFrame,
+        frameWidth,
+        frameHeight,
         getImageParticleData,
         force.particleDensity,
+        force.useParticleCount,
+        force.particleCount,
         morphState,
         appearance.vibrancy,
+        assignment,
     ])
 
     useEffect(() => {
+        const currentMorphState = morphStateRef.current
+        // morphProgress drives the particles while scrubbing; letting go
+        // settles on whichever side morphState names
+        if (currentMorphState.controlled) return
+        if (morphDirection && currentMorphState.isMorphing) {
+            if (morphDirection === currentMorphState.direction) return
+            // Head back the way the particles came, continuing from where
+            // they are so positions and velocities carry straight over
+            cancelMorph()
+            currentMorphState.reverse =
+                morphDirection !== currentMorphState.pathDirection
+            currentMorphState.startProgress = currentMorphState.progress
+            currentMorphState.startTime = performance.now()
+            currentMorphState.direction = morphDirection
+            announceMorphStart(morphDirection)
+            return
+        }
         if (morphDirection && targetParticleDataRef.current) {
             const sourceParticles = particlesRef.current
             const targetParticles = targetParticleDataRef.current
-            if (sourceParticles.length === 0 || targetParticles.length === 0)
+            if (sourceParticles.count === 0 || targetParticles.length === 0)
                 return
 
             // Ensure target positions are up-to-date before morphing
-            const numParticles = Math.min(
-                sourceParticles.length,
-                targetParticles.length
+            applyParticleData(
+                sourceParticles,
+                targetParticles,
+                "target",
+                morphDirection === "toTarget" ? "source" : "target",
+                assignment,
+                appearance,
+                sizing,
+                force.particleDensity
             )
-            for (let i = 0; i < numParticles; i++) {
-                sourceParticles[i].targetPosition.copy(
-                    targetParticles[i].position
-                )
-                sourceParticles[i].targetBaseColor.copy(
-                    targetParticles[i].color
-                )
-                applyVibrancy(
-                    sourceParticles[i].targetColor.copy(
-                        targetParticles[i].color
-                    ),
-                    appearance.vibrancy
-                )
-            }
-            if (sourceParticles.length > numParticles) {
-                for (let i = numParticles; i < sourceParticles.length; i++) {
-                    const targetIndex = i % numParticles
-                    sourceParticles[i].targetPosition.copy(
-                        targetParticles[targetIndex].position
-                    )
-                    sourceParticles[i].targetBaseColor.copy(
-                        targetParticles[targetIndex].color
-                    )
-                    applyVibrancy(
-                        sourceParticles[i].targetColor.copy(
-                            targetParticles[targetIndex].color
-                        ),
-                        appearance.vibrancy
-                    )
-                }
-            }
-
-            particlesRef.current.forEach((p) => {
-                const burstRadius = 300
-                const currentPos =
-                    morphDirection === "toTarget"
-                        ? p.sourcePosition
-                        : p.targetPosition
-                p.burstPosition
-                    .copy(currentPos)
-                    .add(
-                        new THREE.Vector3(
-                            (Math.random() - 0.5) * burstRadius,
-                            (Math.random() - 0.5) * burstRadius,
-                            (Math.random() - 0.5) * burstRadius
-                        )
-                    )
-            })
 
-            morphStateRef.current.isMorphing = true
-            morphStateRef.current.startTime = performance.now()
-            morphStateRef.current.direction = morphDirection
+            currentMorphState.plan = planMorph(
+                particlesRef.current,
+                { choreography, timing, stagger, colors: colorTransition },
+                morphDirection,
+                pointerRef.current
+            )
+            currentMorphState.isMorphing = true
+            currentMorphState.startTime = performance.now()
+            currentMorphState.direction = morphDirection
+            currentMorphState.pathDirection = morphDirection
+            currentMorphState.reverse = false
+            currentMorphState.startProgress = 0
+            currentMorphState.progress = 0
+            announceMorphStart(morphDirection)
         }
     }, [morphDirection, appearance.vibrancy])
 
+    // Scrubbing cancels any timed morph; letting go plays on from the
+    // scrubbed progress to whichever side morphState names
+    const isControlled = morphProgress !== null && morphProgress !== undefined
+    const timingKey = JSON.stringify(timing)
+    const staggerKey = JSON.stringify(stagger)
+    const colorTransitionKey = JSON.stringify(colorTransition)
+    useEffect(() => {
+        const currentMorphState = morphStateRef.current
+        const wasControlled = currentMorphState.controlled
+        currentMorphState.controlled = isControlled
+        if (isControlled) {
+            // The loop starts a new scrubbed morph once progress is between
+            // the ends
+            if (currentMorphState.isMorphing || currentMorphState.isScrubbing) {
+                currentMorphState.isMorphing = false
+                currentMorphState.isScrubbing = false
+                cancelMorph()
+            }
+            currentMorphState.plan = planMorph(
+                particlesRef.current,
+                { choreography, timing, stagger, colors: colorTransition },
+                "toTarget",
+                pointerRef.current
+            )
+            return
+        }
+        if (!wasControlled || currentMorphState.isMorphing) return
+        const direction = morphState === "target" ? "toTarget" : "toSource"
+        // A scrubbed morph heading the same way just carries on
+        const isContinuing =
+            currentMorphState.isScrubbing &&
+            currentMorphState.direction === direction
+        if (currentMorphState.isScrubbing && !isContinuing) cancelMorph()
+        currentMorphState.isScrubbing = false
+        currentMorphState.isMorphing = true
+        currentMorphState.startTime = performance.now()
+        currentMorphState.direction = direction
+        currentMorphState.pathDirection = "toTarget"
+        currentMorphState.reverse = morphState !== "target"
+        currentMorphState.startProgress = currentMorphState.progress
+        if (!isContinuing) announceMorphStart(direction)
+    }, [isControlled, choreography, timingKey, staggerKey, colorTransitionKey])
+
     return (
         <div
             ref={mountRef}
@@ -1217,6 +4663,32 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = (props) => {
     )
 }
 
+// Text keyframes share the source text styling so they look the same in either slot
+const getKeyframeText = (keyframe: PlaylistKeyframe, style: TextSource) =>
+    keyframe.type === "text" ? { ...style, text: keyframe.text } : null
+
+// Keyframes with the same key need no reload when they swap slots
+const getKeyframeKey = (keyframe: PlaylistKeyframe) =>
+    keyframe.type === "text" ? `text:${keyframe.text}` : keyframe.image
+
+// Folds the flat Framer easing controls into a single easing value
+const getTiming = ({
+    duration,
+    phaseDurations,
+    easing,
+    bezier,
+    spring,
+}: (typeof defaultProps)["timing"]): TimingProps => ({
+    duration,
+    phaseDurations,
+    easing:
+        easing === "bezier"
+            ? [bezier.x1, bezier.y1, bezier.x2, bezier.y2]
+            : easing === "spring"
+              ? spring
+              : easing,
+})
+
 const defaultProps = {
     width: 600,
     height: 600,
@@ -1224,7 +4696,76 @@ const defaultProps = {
         "data:image/svg+xml,%3csvg width='100' height='100' xmlns='http://www.w3.org/2000/svg'%3e%3ccircle cx='50' cy='50' r='45' fill='white'/%3e%3c/svg%3e",
     targetImage:
         "data:image/svg+xml,%3csvg width='100' height='100' xmlns='http://www.w3.org/2000/svg'%3e%3crect width='90' height='90' x='5' y='5' fill='white'/%3e%3c/svg%3e",
+    sourceType: "image" as "image" | "text" | "video" | "sequence" | "model",
+    sourceModel: "",
+    targetModel: "",
+    sourceFrames: [] as string[],
+    sequence: {
+        playing: true,
+        loop: true,
+        frameDuration: 500,
+        transition: "physics" as FrameTransition,
+        transitionDuration: 300,
+    },
+    sourceVideo: "",
+    video: {
+        playing: true,
+        loop: true,
+        playbackRate: 1,
+        sampleRate: 15,
+    },
+    targetType: "image" as "image" | "text" | "model",
+    sourceText: {
+        text: "Hello",
+        fontFamily: "Inter, sans-serif",
+        fontWeight: 700,
+        fontSize: 120,
+        lineHeight: 1.1,
+        align: "center" as TextAlign,
+        color: "#ffffff",
+    },
+    targetText: {
+        text: "World",
+        fontFamily: "Inter, sans-serif",
+        fontWeight: 700,
+        fontSize: 120,
+        lineHeight: 1.1,
+        align: "center" as TextAlign,
+        color: "#ffffff",
+    },
+    sourceDepthMap: null as string | null,
+    targetDepthMap: null as string | null,
     morphState: "source" as "source" | "target",
+    // Code overrides can pass a MotionValue here to link the morph to scroll
+    scrub: false,
+    morphProgress: 0 as ProgressSource,
+    choreography: "burst",
+    customChoreography: "",
+    timing: {
+        duration: 4000,
+        phaseDurations: [] as number[],
+        easing: "easeInOutCubic" as EasingPreset | "bezier" | "spring",
+        bezier: { x1: 0.42, y1: 0, x2: 0.58, y2: 1 },
+        spring: { stiffness: 120, damping: 14, mass: 1 },
+    },
+    stagger: {
+        mode: "none" as StaggerMode,
+        spread: 0.5,
+        invert: false,
+    },
+    colorTransition: {
+        space: "rgb" as ColorSpace,
+        huePath: "shorter" as "shorter" | "longer",
+        start: 0,
+        end: 1,
+    },
+    keyframes: [] as PlaylistKeyframe[],
+    keyframeIndex: 0,
+    playlist: {
+        autoplay: false,
+        loop: true,
+        holdTime: 2000,
+    } as PlaylistProps,
     cameraPosition: { x: 0, y: 0, z: 300 },
     cameraRotation: { x: 0, y: 0, z: 0 },
     objectPosition: { x: 0, y: 0, z: 0 },
@@ -1232,6 +4773,36 @@ const defaultProps = {
     sceneRotation: { x: 0, y: 0, z: 0 },
     enablePushForce: true,
     enableCollisions: true,
+    assignment: "spatial" as AssignmentMode,
+    depth: {
+        source: "none" as DepthSource,
+        scale: 80,
+        invert: false,
+    },
+    sampling: {
+        mode: "grid" as SamplingMode,
+        edgeStrength: 0.8,
+        seed: 1,
+        stippleTone: "dark" as "dark" | "light",
+        monochrome: false,
+        inkColor: "#ffffff",
+        vectorFill: true,
+        modelPoints: "surface" as "surface" | "vertices",
+    },
+    keying: {
+        alphaThreshold: 128,
+        mode: "none" as KeyMode,
+        keyColor: "#ffffff",
+        lumaKey: "white" as "black" | "white",
+        tolerance: 0.1,
+    },
+    fit: {
+        resolution: 400,
+        mode: "world" as FitMode,
+        worldWidth: 400,
+        worldHeight: 400,
+        sharedFrame: false,
+    },
     force: {
         returnStrength: 0.02,
         damping: 0.92,
@@ -1239,6 +4810,8 @@ const defaultProps = {
         pushStrength: 0.8,
         particleSize: 1.25,
         particleDensity: 4,
+        useParticleCount: false,
+        particleCount: 8000,
     },
     lighting: {
         ambientLightColor: "#ffffff",
@@ -1250,69 +4823,521 @@ const defaultProps = {
     appearance: {
         vibrancy: 1.2,
         exposure: 1.0,
+        grade: "none" as ColorGrade,
+        palette: ["#0b132b", "#3a506b", "#5bc0be", "#ffffff"],
+        shadowColor: "#1b1b3a",
+        highlightColor: "#ffd23f",
+        posterizeLevels: 4,
+        hueShift: 0,
+        gradeAmount: 1,
+    },
+    sizing: {
+        source: "none" as SizeSource,
+        invert: false,
+        minScale: 0.2,
+        alphaOpacity: false,
+    },
+}
+
+/**
+ * @framerSupportedLayoutWidth any-prefer-fixed
+ * @framerSupportedLayoutHeight any-prefer-fixed
+ * @framerIntrinsicWidth 600
+ * @framerIntrinsicHeight 800
+ * @framerDisableUnlink
+ */
+
+type FramerImageParticleEffectProps = typeof defaultProps &
+    MorphEventProps & {
+        onMorphComplete?: (direction: "toTarget" | "toSource") => void
+    }
+
+export function FramerImageParticleEffect(
+    props: FramerImageParticleEffectProps
+) {
+    const {
+        width,
+        height,
+        morphState,
+        sourceImage,
+        targetImage,
+        sourceType,
+        targetType,
+        sourceVideo,
+        sourceFrames,
+        sourceModel,
+        targetModel,
+        sourceText,
+        targetText,
+        sourceDepthMap,
+        targetDepthMap,
+        appearance,
+        scrub,
+        morphProgress,
+        choreography,
+        customChoreography,
+        timing,
+        keyframes,
+        keyframeIndex,
+        playlist,
+        onMorphComplete,
+        ...rest
+    } = props
+
+    const [morphDirection, setMorphDirection] = useState<
+        "toTarget" | "toSource" | null
+    >(null)
+    const [prevMorphState, setPrevMorphState] = useState(morphState)
+
+    // With two or more keyframes the source and target slots take turns
+    // holding the next keyframe, and morphState is ignored
+    const playlistKeyframes = keyframes.filter((keyframe) =>
+        keyframe.type === "text" ? keyframe.text : keyframe.image
+    )
+    const isPlaylist = !scrub && playlistKeyframes.length > 1
+    const lastKeyframe = playlistKeyframes.length - 1
+    const [slots, setSlots] = useState({ source: 0, target: 1 })
+    const [playlistSide, setPlaylistSide] = useState<"source" | "target">(
+        "source"
+    )
+    // Slot waiting for its new keyframe to be sampled before the morph
+    // starts, and the keyframe it held before, restored if loading fails
+    const [loading, setLoading] = useState<{
+        side: "source" | "target"
+        previous: number
+    } | null>(null)
+    // Keyframe that last failed to load, which autoplay steps over
+    const [skippedKeyframe, setSkippedKeyframe] = useState<number | null>(null)
+    const [requestedKeyframe, setRequestedKeyframe] = useState(keyframeIndex)
+    const clampKeyframe = (index: number) =>
+        Math.min(Math.max(Math.round(index), 0), lastKeyframe)
+    const shownKeyframe = clampKeyframe(slots[playlistSide])
+    const requestedIndex = clampKeyframe(requestedKeyframe)
+    const sourceKeyframe = playlistKeyframes[clampKeyframe(slots.source)]
+    const targetKeyframe = playlistKeyframes[clampKeyframe(slots.target)]
+    const holdTime = playlistKeyframes[shownKeyframe]?.hold || playlist.holdTime
+
+    useEffect(() => {
+        if (isPlaylist || scrub) return
+        if (morphState !== prevMorphState) {
+            setMorphDirection(morphState === "target" ? "toTarget" : "toSource")
+            setPrevMorphState(morphState)
+        }
+    }, [morphState, prevMorphState, isPlaylist, scrub])
+
+    useEffect(() => {
+        setRequestedKeyframe(keyframeIndex)
+    }, [keyframeIndex])
+
+    // Load the requested keyframe into the hidden slot and morph to it once
+    // it has been sampled; requests made mid-morph are picked up once the
+    // current one completes
+    useEffect(() => {
+        if (!isPlaylist) {
+            setLoading(null)
+            return
+        }
+        if (morphDirection || loading || requestedIndex === shownKeyframe)
+            return
+        const hiddenSide = playlistSide === "source" ? "target" : "source"
+        const hiddenIndex = clampKeyframe(slots[hiddenSide])
+        setSlots((prev) => ({ ...prev, [hiddenSide]: requestedIndex }))
+        if (
+            getKeyframeKey(playlistKeyframes[hiddenIndex]) ===
+            getKeyframeKey(playlistKeyframes[requestedIndex])
+        ) {
+            setMorphDirection(hiddenSide === "target" ? "toTarget" : "toSource")
+        } else {
+            setLoading({ side: hiddenSide, previous: hiddenIndex })
+        }
+    }, [
+        isPlaylist,
+        morphDirection,
+        loading,
+        requestedIndex,
+        shownKeyframe,
+        playlistSide,
+    ])
+
+    // A keyframe that fails to load is dropped: the slot goes back to what
+    // it held, which is still what the particles have for that side
+    const handleDataLoad = useCallback(
+        (side: "source" | "target", loaded: boolean) => {
+            if (side !== loading?.side) return
+            setLoading(null)
+            if (loaded) {
+                setSkippedKeyframe(null)
+                setMorphDirection(side === "target" ? "toTarget" : "toSource")
+                return
+            }
+            setSkippedKeyframe(slots[side])
+            setSlots((prev) => ({ ...prev, [side]: loading.previous }))
+            setRequestedKeyframe(shownKeyframe)
+        },
+        [loading, slots, shownKeyframe]
+    )
+
+    useEffect(() => {
+        if (
+            !isPlaylist ||
+            !playlist.autoplay ||
+            morphDirection ||
+            requestedIndex !== shownKeyframe
+        )
+            return
+        const getNext = (index: number) =>
+            index < lastKeyframe ? index + 1 : playlist.loop ? 0 : null
+        let next = getNext(shownKeyframe)
+        if (next !== null && next === skippedKeyframe) next = getNext(next)
+        if (next === null || next === shownKeyframe) return
+        const timeout = setTimeout(() => setRequestedKeyframe(next), holdTime)
+        return () => clearTimeout(timeout)
+    }, [
+        isPlaylist,
+        playlist.autoplay,
+        playlist.loop,
+        holdTime,
+        morphDirection,
+        requestedIndex,
+        shownKeyframe,
+        lastKeyframe,
+        skippedKeyframe,
+    ])
+
+    const handleMorphComplete = useCallback(
+        (direction: "toTarget" | "toSource", status: MorphStatus) => {
+            // A cancelled morph has already been replaced by a newer one
+            if (status === "cancelled") return
+            setMorphDirection(null)
+            if (isPlaylist) {
+                setPlaylistSide(direction === "toTarget" ? "target" : "source")
+            }
+            onMorphComplete?.(direction)
+        },
+        [isPlaylist, onMorphComplete]
+    )
+
+    return (
+        <div style={{ width, height, background: "transparent" }}>
+            <ImageParticleEffect
+                sourceImageUrl={isPlaylist ? sourceKeyframe.image : sourceImage}
+                targetImageUrl={isPlaylist ? targetKeyframe.image : targetImage}
+                sourceText={
+                    isPlaylist
+                        ? getKeyframeText(sourceKeyframe, sourceText)
+                        : sourceType === "text"
+                          ? sourceText
+                          : null
+                }
+                sourceVideoUrl={
+                    !isPlaylist && sourceType === "video" && sourceVideo
+                        ? sourceVideo
+                        : null
+                }
+                sourceFrameUrls={
+                    !isPlaylist && sourceType === "sequence"
+                        ? sourceFrames.filter(Boolean)
+                        : null
+                }
+                sourceModelUrl={
+                    !isPlaylist && sourceType === "model" && sourceModel
+                        ? sourceModel
+                        : null
+                }
+                targetText={
+                    isPlaylist
+                        ? getKeyframeText(targetKeyframe, sourceText)
+                        : targetType === "text"
+                          ? targetText
+                          : null
+                }
+                targetModelUrl={
+                    !isPlaylist && targetType === "model" && targetModel
+                        ? targetModel
+                        : null
+                }
+                sourceDepthMapUrl={isPlaylist ? null : sourceDepthMap}
+                targetDepthMapUrl={isPlaylist ? null : targetDepthMap}
+                morphState={isPlaylist ? playlistSide : morphState}
+                choreography={
+                    choreography === "custom"
+                        ? customChoreography
+                        : choreography
+                }
+                timing={getTiming(timing)}
+                morphProgress={scrub ? morphProgress : null}
+                appearance={appearance}
+                {...rest}
+                morphDirection={morphDirection}
+                onMorphComplete={handleMorphComplete}
+                onDataLoad={handleDataLoad}
+            />
+        </div>
+    )
+}
+
+FramerImageParticleEffect.defaultProps = defaultProps
+
+addPropertyControls<FramerImageParticleEffectProps>(FramerImageParticleEffect, {
+    sourceType: {
+        type: ControlType.SegmentedEnum,
+        title: "Source",
+        options: ["image", "text", "video", "sequence", "model"],
+        optionTitles: ["Image", "Text", "Video", "Frames", "Model"],
+        defaultValue: "image",
+    },
+    sourceImage: {
+        type: ControlType.Image,
+        title: "Image",
+        hidden: (props: typeof defaultProps) => props.sourceType !== "image",
+    },
+    sourceText: {
+        type: ControlType.Object,
+        title: "Text",
+        hidden: (props: typeof defaultProps) => props.sourceType !== "text",
+        controls: {
+            text: {
+                type: ControlType.String,
+                title: "Text",
+                defaultValue: "Hello",
+                displayTextArea: true,
+            },
+            fontFamily: {
+                type: ControlType.String,
+                title: "Font",
+                defaultValue: "Inter, sans-serif",
+            },
+            fontWeight: {
+                type: ControlType.Enum,
+                title: "Weight",
+                options: [100, 200, 300, 400, 500, 600, 700, 800, 900],
+                optionTitles: [
+                    "Thin",
+                    "Extra Light",
+                    "Light",
+                    "Regular",
+                    "Medium",
+                    "Semibold",
+                    "Bold",
+                    "Extra Bold",
+                    "Black",
+                ],
+                defaultValue: 700,
+            },
+            fontSize: {
+                type: ControlType.Number,
+                title: "Size",
+                defaultValue: 120,
+                min: 8,
+                max: 400,
+                step: 1,
+            },
+            lineHeight: {
+                type: ControlType.Number,
+                title: "Line Height",
+                defaultValue: 1.1,
+                min: 0.5,
+                max: 3,
+                step: 0.05,
+            },
+            align: {
+                type: ControlType.SegmentedEnum,
+                title: "Align",
+                options: ["left", "center", "right"],
+                optionTitles: ["Left", "Center", "Right"],
+                defaultValue: "center",
+            },
+            color: {
+                type: ControlType.Color,
+                title: "Fill",
+                defaultValue: "#ffffff",
+            },
+        },
+    },
+    sourceVideo: {
+        type: ControlType.File,
+        title: "Video",
+        allowedFileTypes: ["mp4", "webm", "mov"],
+        hidden: (props: typeof defaultProps) => props.sourceType !== "video",
+    },
+    video: {
+        type: ControlType.Object,
+        title: "Playback",
+        hidden: (props: typeof defaultProps) => props.sourceType !== "video",
+        controls: {
+            playing: {
+                type: ControlType.Boolean,
+                title: "Playing",
+                defaultValue: true,
+            },
+            loop: {
+                type: ControlType.Boolean,
+                title: "Loop",
+                defaultValue: true,
+            },
+            playbackRate: {
+                type: ControlType.Number,
+                title: "Speed",
+                defaultValue: 1,
+                min: 0.25,
+                max: 4,
+                step: 0.25,
+            },
+            sampleRate: {
+                type: ControlType.Number,
+                title: "Sample FPS",
+                defaultValue: 15,
+                min: 1,
+                max: 60,
+                step: 1,
+            },
+        },
+    },
+    sourceModel: {
+        type: ControlType.File,
+        title: "Model",
+        allowedFileTypes: ["ply", "obj", "gltf", "glb"],
+        hidden: (props: typeof defaultProps) => props.sourceType !== "model",
+    },
+    sourceFrames: {
+        type: ControlType.Array,
+        title: "Frames",
+        control: { type: ControlType.Image },
+        hidden: (props: typeof defaultProps) => props.sourceType !== "sequence",
+    },
+    sequence: {
+        type: ControlType.Object,
+        title: "Playback",
+        hidden: (props: typeof defaultProps) => props.sourceType !== "sequence",
+        controls: {
+            playing: {
+                type: ControlType.Boolean,
+                title: "Playing",
+                defaultValue: true,
+            },
+            loop: {
+                type: ControlType.Boolean,
+                title: "Loop",
+                defaultValue: true,
+            },
+            frameDuration: {
+                type: ControlType.Number,
+                title: "Frame",
+                defaultValue: 500,
+                min: 20,
+                max: 5000,
+                step: 10,
+                unit: "ms",
+            },
+            transition: {
+                type: ControlType.Enum,
+                title: "Transition",
+                options: ["physics", "morph"],
+                optionTitles: ["Physics", "Morph"],
+                defaultValue: "physics",
+            },
+            transitionDuration: {
+                type: ControlType.Number,
+                title: "Morph Time",
+                defaultValue: 300,
+                min: 50,
+                max: 3000,
+                step: 10,
+                unit: "ms",
+                hidden: (props) => props.transition !== "morph",
+            },
+        },
+    },
+    targetType: {
+        type: ControlType.SegmentedEnum,
+        title: "Target",
+        options: ["image", "text", "model"],
+        optionTitles: ["Image", "Text", "Model"],
+        defaultValue: "image",
+    },
+    targetModel: {
+        type: ControlType.File,
+        title: "Model",
+        allowedFileTypes: ["ply", "obj", "gltf", "glb"],
+        hidden: (props: typeof defaultProps) => props.targetType !== "model",
+    },
+    targetImage: {
+        type: ControlType.Image,
+        title: "Image",
+        hidden: (props: typeof defaultProps) => props.targetType !== "image",
     },
-}
-
-/**
- * @framerSupportedLayoutWidth any-prefer-fixed
- * @framerSupportedLayoutHeight any-prefer-fixed
- * @framerIntrinsicWidth 600
- * @framerIntrinsicHeight 800
- * @framerDisableUnlink
- */
-
-export function FramerImageParticleEffect(props: typeof defaultProps) {
-    const {
-        width,
-        height,
-        morphState,
-        sourceImage,
-        targetImage,
-        appearance,
-        ...rest
-    } = props
-
-    const [morphDirection, setMorphDirection] = useState<
-        "toTarget" | "toSource" | null
-    >(null)
-    const [prevMorphState, setPrevMorphState] = useState(morphState)
-
-    useEffect(() => {
-        if (morphState !== prevMorphState) {
-            setMorphDirection(morphState === "target" ? "toTarget" : "toSource")
-            setPrevMorphState(morphState)
-        }
-    }, [morphState, prevMorphState])
-
-    const handleMorphComplete = useCallback(() => {
-        setMorphDirection(null)
-    }, [])
-
-    return (
-        <div style={{ width, height, background: "transparent" }}>
-            <ImageParticleEffect
-                sourceImageUrl={sourceImage}
-                targetImageUrl={targetImage}
-                morphState={morphState}
-                appearance={appearance}
-                {...rest}
-                morphDirection={morphDirection}
-                onMorphComplete={handleMorphComplete}
-            />
-        </div>
-    )
-}
-
-FramerImageParticleEffect.defaultProps = defaultProps
-
-addPropertyControls(FramerImageParticleEffect, {
-    sourceImage: {
+    targetText: {
+        type: ControlType.Object,
+        title: "Text",
+        hidden: (props: typeof defaultProps) => props.targetType !== "text",
+        controls: {
+            text: {
+                type: ControlType.String,
+                title: "Text",
+                defaultValue: "World",
+                displayTextArea: true,
+            },
+            fontFamily: {
+                type: ControlType.String,
+                title: "Font",
+                defaultValue: "Inter, sans-serif",
+            },
+            fontWeight: {
+                type: ControlType.Enum,
+                title: "Weight",
+                options: [100, 200, 300, 400, 500, 600, 700, 800, 900],
+                optionTitles: [
+                    "Thin",
+                    "Extra Light",
+                    "Light",
+                    "Regular",
+                    "Medium",
+                    "Semibold",
+                    "Bold",
+                    "Extra Bold",
+                    "Black",
+                ],
+                defaultValue: 700,
+            },
+            fontSize: {
+                type: ControlType.Number,
+                title: "Size",
+                defaultValue: 120,
+                min: 8,
+                max: 400,
+                step: 1,
+            },
+            lineHeight: {
+                type: ControlType.Number,
+                title: "Line Height",
+                defaultValue: 1.1,
+                min: 0.5,
+                max: 3,
+                step: 0.05,
+            },
+            align: {
+                type: ControlType.SegmentedEnum,
+                title: "Align",
+                options: ["left", "center", "right"],
+                optionTitles: ["Left", "Center", "Right"],
+                defaultValue: "center",
+            },
+            color: {
+                type: ControlType.Color,
+                title: "Fill",
+                defaultValue: "#ffffff",
+            },
+        },
+    },
+    sourceDepthMap: {
         type: ControlType.Image,
-        title: "Source",
+        title: "Source Depth",
+        hidden: (props: typeof defaultProps) => props.depth.source !== "map",
     },
-    targetImage: {
+    targetDepthMap: {
         type: ControlType.Image,
-        title: "Target",
+        title: "Target Depth",
+        hidden: (props: typeof defaultProps) => props.depth.source !== "map",
     },
     morphState: {
         type: ControlType.SegmentedEnum,
@@ -1320,6 +5345,340 @@ addPropertyControls(FramerImageParticleEffect, {
         options: ["source", "target"],
         optionTitles: ["Source", "Target"],
         defaultValue: "source",
+        hidden: (props: typeof defaultProps) =>
+            props.scrub || props.keyframes?.length > 1,
+    },
+    scrub: {
+        type: ControlType.Boolean,
+        title: "Scrub",
+        defaultValue: false,
+    },
+    morphProgress: {
+        type: ControlType.Number,
+        title: "Progress",
+        defaultValue: 0,
+        min: 0,
+        max: 1,
+        step: 0.01,
+        hidden: (props: typeof defaultProps) => !props.scrub,
+    },
+    choreography: {
+        type: ControlType.Enum,
+        title: "Choreography",
+        options: [
+            "spring",
+            "burst",
+            "vortex",
+            "wave",
+            "gravity",
+            "dissolve",
+            "tornado",
+            "custom",
+        ],
+        optionTitles: [
+            "Direct Spring",
+            "Burst & Swirl",
+            "Vortex",
+            "Wave Wipe",
+            "Gravity",
+            "Dissolve",
+            "Tornado",
+            "Custom",
+        ],
+        defaultValue: "burst",
+    },
+    customChoreography: {
+        type: ControlType.String,
+        title: "Name",
+        defaultValue: "",
+        placeholder: "Registered name",
+        hidden: (props: typeof defaultProps) => props.choreography !== "custom",
+    },
+    timing: {
+        type: ControlType.Object,
+        title: "Timing",
+        controls: {
+            duration: {
+                type: ControlType.Number,
+                title: "Duration",
+                defaultValue: 4000,
+                min: 50,
+                max: 20000,
+                step: 50,
+                unit: "ms",
+            },
+            phaseDurations: {
+                type: ControlType.Array,
+                title: "Phases",
+                control: {
+                    type: ControlType.Number,
+                    defaultValue: 1000,
+                    min: 0,
+                    max: 20000,
+                    step: 50,
+                    unit: "ms",
+                },
+            },
+            easing: {
+                type: ControlType.Enum,
+                title: "Easing",
+                options: [
+                    "linear",
+                    "easeIn",
+                    "easeOut",
+                    "easeInOut",
+                    "easeInOutCubic",
+                    "bezier",
+                    "spring",
+                ],
+                optionTitles: [
+                    "Linear",
+                    "Ease In",
+                    "Ease Out",
+                    "Ease In Out",
+                    "Ease In Out Cubic",
+                    "Cubic Bezier",
+                    "Spring",
+                ],
+                defaultValue: "easeInOutCubic",
+            },
+            bezier: {
+                type: ControlType.Object,
+                title: "Curve",
+                hidden: (props) => props.easing !== "bezier",
+                controls: {
+                    x1: {
+                        type: ControlType.Number,
+                        defaultValue: 0.42,
+                        min: 0,
+                        max: 1,
+                        step: 0.01,
+                    },
+                    y1: {
+                        type: ControlType.Number,
+                        defaultValue: 0,
+                        min: -1,
+                        max: 2,
+                        step: 0.01,
+                    },
+                    x2: {
+                        type: ControlType.Number,
+                        defaultValue: 0.58,
+                        min: 0,
+                        max: 1,
+                        step: 0.01,
+                    },
+                    y2: {
+                        type: ControlType.Number,
+                        defaultValue: 1,
+                        min: -1,
+                        max: 2,
+                        step: 0.01,
+                    },
+                },
+            },
+            spring: {
+                type: ControlType.Object,
+                title: "Spring",
+                hidden: (props) => props.easing !== "spring",
+                controls: {
+                    stiffness: {
+                        type: ControlType.Number,
+                        title: "Stiffness",
+                        defaultValue: 120,
+                        min: 1,
+                        max: 1000,
+                        step: 1,
+                    },
+                    damping: {
+                        type: ControlType.Number,
+                        title: "Damping",
+                        defaultValue: 14,
+                        min: 0,
+                        max: 100,
+                        step: 1,
+                    },
+                    mass: {
+                        type: ControlType.Number,
+                        title: "Mass",
+                        defaultValue: 1,
+                        min: 0.1,
+                        max: 10,
+                        step: 0.1,
+                    },
+                },
+            },
+        },
+    },
+    stagger: {
+        type: ControlType.Object,
+        title: "Stagger",
+        controls: {
+            mode: {
+                type: ControlType.Enum,
+                title: "Order",
+                options: [
+                    "none",
+                    "leftToRight",
+                    "topToBottom",
+                    "radial",
+                    "pointer",
+                    "random",
+                    "luminance",
+                ],
+                optionTitles: [
+                    "None",
+                    "Left to Right",
+                    "Top to Bottom",
+                    "Radial",
+                    "From Pointer",
+                    "Random",
+                    "Luminance",
+                ],
+                defaultValue: "none",
+            },
+            spread: {
+                type: ControlType.Number,
+                title: "Spread",
+                defaultValue: 0.5,
+                min: 0,
+                max: 0.95,
+                step: 0.05,
+                hidden: (props) => props.mode === "none",
+            },
+            invert: {
+                type: ControlType.Boolean,
+                title: "Invert",
+                defaultValue: false,
+                hidden: (props) => props.mode === "none",
+            },
+        },
+    },
+    colorTransition: {
+        type: ControlType.Object,
+        title: "Color Blend",
+        controls: {
+            space: {
+                type: ControlType.Enum,
+                title: "Space",
+                options: ["rgb", "oklab", "oklch", "hsl"],
+                optionTitles: ["Linear RGB", "OKLab", "OKLCh", "HSL"],
+                defaultValue: "rgb",
+            },
+            huePath: {
+                type: ControlType.SegmentedEnum,
+                title: "Hue",
+                options: ["shorter", "longer"],
+                optionTitles: ["Shorter", "Longer"],
+                defaultValue: "shorter",
+                hidden: (props) =>
+                    props.space !== "oklch" && props.space !== "hsl",
+            },
+            start: {
+                type: ControlType.Number,
+                title: "Start",
+                defaultValue: 0,
+                min: 0,
+                max: 1,
+                step: 0.05,
+            },
+            end: {
+                type: ControlType.Number,
+                title: "End",
+                defaultValue: 1,
+                min: 0,
+                max: 1,
+                step: 0.05,
+            },
+        },
+    },
+    keyframes: {
+        type: ControlType.Array,
+        title: "Keyframes",
+        control: {
+            type: ControlType.Object,
+            controls: {
+                type: {
+                    type: ControlType.SegmentedEnum,
+                    title: "Type",
+                    options: ["image", "text"],
+                    optionTitles: ["Image", "Text"],
+                    defaultValue: "image",
+                },
+                image: {
+                    type: ControlType.Image,
+                    title: "Image",
+                    hidden: (props) => props.type !== "image",
+                },
+                text: {
+                    type: ControlType.String,
+                    title: "Text",
+                    defaultValue: "",
+                    displayTextArea: true,
+                    hidden: (props) => props.type !== "text",
+                },
+                hold: {
+                    type: ControlType.Number,
+                    title: "Hold",
+                    defaultValue: 0,
+                    min: 0,
+                    max: 20000,
+                    step: 100,
+                    unit: "ms",
+                },
+            },
+        },
+    },
+    keyframeIndex: {
+        type: ControlType.Number,
+        title: "Keyframe",
+        defaultValue: 0,
+        min: 0,
+        max: 50,
+        step: 1,
+        displayStepper: true,
+        hidden: (props: typeof defaultProps) => !(props.keyframes?.length > 1),
+    },
+    playlist: {
+        type: ControlType.Object,
+        title: "Playlist",
+        hidden: (props: typeof defaultProps) => !(props.keyframes?.length > 1),
+        controls: {
+            autoplay: {
+                type: ControlType.Boolean,
+                title: "Autoplay",
+                defaultValue: false,
+            },
+            loop: {
+                type: ControlType.Boolean,
+                title: "Loop",
+                defaultValue: true,
+            },
+            holdTime: {
+                type: ControlType.Number,
+                title: "Hold",
+                defaultValue: 2000,
+                min: 0,
+                max: 20000,
+                step: 100,
+                unit: "ms",
+            },
+        },
+    },
+    onMorphStart: {
+        type: ControlType.EventHandler,
+    },
+    onMorphPhaseChange: {
+        type: ControlType.EventHandler,
+    },
+    onMorphProgress: {
+        type: ControlType.EventHandler,
+    },
+    onMorphCancel: {
+        type: ControlType.EventHandler,
+    },
+    onMorphComplete: {
+        type: ControlType.EventHandler,
     },
     appearance: {
         type: ControlType.Object,
@@ -1341,6 +5700,107 @@ addPropertyControls(FramerImageParticleEffect, {
                 max: 3,
                 step: 0.1,
             },
+            hueShift: {
+                type: ControlType.Number,
+                title: "Hue Shift",
+                defaultValue: 0,
+                min: -180,
+                max: 180,
+                step: 1,
+                unit: "°",
+            },
+            grade: {
+                type: ControlType.Enum,
+                title: "Grade",
+                options: [
+                    "none",
+                    "palette",
+                    "duotone",
+                    "gradient",
+                    "posterize",
+                ],
+                optionTitles: [
+                    "None",
+                    "Palette",
+                    "Duotone",
+                    "Gradient Map",
+                    "Posterize",
+                ],
+                defaultValue: "none",
+            },
+            palette: {
+                type: ControlType.Array,
+                title: "Colors",
+                control: { type: ControlType.Color },
+                defaultValue: ["#0b132b", "#3a506b", "#5bc0be", "#ffffff"],
+                hidden: (props) =>
+                    props.grade !== "palette" && props.grade !== "gradient",
+            },
+            shadowColor: {
+                type: ControlType.Color,
+                title: "Shadows",
+                defaultValue: "#1b1b3a",
+                hidden: (props) => props.grade !== "duotone",
+            },
+            highlightColor: {
+                type: ControlType.Color,
+                title: "Highlights",
+                defaultValue: "#ffd23f",
+                hidden: (props) => props.grade !== "duotone",
+            },
+            posterizeLevels: {
+                type: ControlType.Number,
+                title: "Levels",
+                defaultValue: 4,
+                min: 2,
+                max: 16,
+                step: 1,
+                hidden: (props) => props.grade !== "posterize",
+            },
+            gradeAmount: {
+                type: ControlType.Number,
+                title: "Amount",
+                defaultValue: 1,
+                min: 0,
+                max: 1,
+                step: 0.01,
+                hidden: (props) => props.grade === "none",
+            },
+        },
+    },
+    sizing: {
+        type: ControlType.Object,
+        title: "Size & Opacity",
+        controls: {
+            source: {
+                type: ControlType.Enum,
+                title: "Size From",
+                options: ["none", "luminance", "alpha"],
+                optionTitles: ["Uniform", "Luminance", "Alpha"],
+                defaultValue: "none",
+            },
+            invert: {
+                type: ControlType.Boolean,
+                title: "Invert",
+                defaultValue: false,
+                hidden: (props) => props.source === "none",
+            },
+            minScale: {
+                type: ControlType.Number,
+                title: "Min Size",
+                defaultValue: 0.2,
+                min: 0,
+                max: 1,
+                step: 0.05,
+                hidden: (props) => props.source === "none",
+            },
+            alphaOpacity: {
+                type: ControlType.Boolean,
+                title: "Alpha Opacity",
+                defaultValue: false,
+                enabledTitle: "On",
+                disabledTitle: "Off",
+            },
         },
     },
     enablePushForce: {
@@ -1357,6 +5817,208 @@ addPropertyControls(FramerImageParticleEffect, {
         enabledTitle: "On",
         disabledTitle: "Off",
     },
+    assignment: {
+        type: ControlType.Enum,
+        title: "Pairing",
+        options: ["spatial", "index"],
+        optionTitles: ["Spatial", "Scan Order"],
+        defaultValue: "spatial",
+    },
+    depth: {
+        type: ControlType.Object,
+        title: "Depth",
+        controls: {
+            source: {
+                type: ControlType.Enum,
+                title: "From",
+                options: ["none", "luminance", "alpha", "map"],
+                optionTitles: ["Flat", "Luminance", "Alpha", "Depth Map"],
+                defaultValue: "none",
+            },
+            scale: {
+                type: ControlType.Number,
+                title: "Scale",
+                defaultValue: 80,
+                min: 0,
+                max: 400,
+                step: 1,
+                hidden: (props) => props.source === "none",
+            },
+            invert: {
+                type: ControlType.Boolean,
+                title: "Invert",
+                defaultValue: false,
+                enabledTitle: "On",
+                disabledTitle: "Off",
+                hidden: (props) => props.source === "none",
+            },
+        },
+    },
+    sampling: {
+        type: ControlType.Object,
+        title: "Sampling",
+        controls: {
+            mode: {
+                type: ControlType.Enum,
+                title: "Mode",
+                options: ["grid", "poisson", "edges", "dither", "vector"],
+                optionTitles: [
+                    "Grid",
+                    "Blue Noise",
+                    "Edges",
+                    "Stipple",
+                    "Vector (SVG)",
+                ],
+                defaultValue: "grid",
+            },
+            edgeStrength: {
+                type: ControlType.Number,
+                title: "Edge Bias",
+                defaultValue: 0.8,
+                min: 0,
+                max: 1,
+                step: 0.05,
+                hidden: (props) => props.mode !== "edges",
+            },
+            seed: {
+                type: ControlType.Number,
+                title: "Seed",
+                defaultValue: 1,
+                min: 0,
+                max: 9999,
+                step: 1,
+                displayStepper: true,
+                hidden: (props) =>
+                    props.mode === "grid" || props.mode === "dither",
+            },
+            stippleTone: {
+                type: ControlType.SegmentedEnum,
+                title: "Dots On",
+                options: ["dark", "light"],
+                optionTitles: ["Dark", "Light"],
+                defaultValue: "dark",
+                hidden: (props) => props.mode !== "dither",
+            },
+            monochrome: {
+                type: ControlType.Boolean,
+                title: "Monochrome",
+                defaultValue: false,
+                enabledTitle: "On",
+                disabledTitle: "Off",
+                hidden: (props) => props.mode !== "dither",
+            },
+            inkColor: {
+                type: ControlType.Color,
+                title: "Ink",
+                defaultValue: "#ffffff",
+                hidden: (props) => props.mode !== "dither" || !props.monochrome,
+            },
+            vectorFill: {
+                type: ControlType.Boolean,
+                title: "Fill Shapes",
+                defaultValue: true,
+                enabledTitle: "On",
+                disabledTitle: "Outline",
+                hidden: (props) => props.mode !== "vector",
+            },
+            modelPoints: {
+                type: ControlType.Enum,
+                title: "Model Points",
+                options: ["surface", "vertices"],
+                optionTitles: ["Surface", "Vertices"],
+                defaultValue: "surface",
+            },
+        },
+    },
+    keying: {
+        type: ControlType.Object,
+        title: "Background",
+        controls: {
+            alphaThreshold: {
+                type: ControlType.Number,
+                title: "Alpha Cutoff",
+                defaultValue: 128,
+                min: 0,
+                max: 254,
+                step: 1,
+            },
+            mode: {
+                type: ControlType.Enum,
+                title: "Key",
+                options: ["none", "chroma", "luma", "auto"],
+                optionTitles: ["None", "Color", "Luminance", "Auto Detect"],
+                defaultValue: "none",
+            },
+            keyColor: {
+                type: ControlType.Color,
+                title: "Key Color",
+                defaultValue: "#ffffff",
+                hidden: (props) => props.mode !== "chroma",
+            },
+            lumaKey: {
+                type: ControlType.SegmentedEnum,
+                title: "Drop",
+                options: ["black", "white"],
+                optionTitles: ["Black", "White"],
+                defaultValue: "white",
+                hidden: (props) => props.mode !== "luma",
+            },
+            tolerance: {
+                type: ControlType.Number,
+                title: "Tolerance",
+                defaultValue: 0.1,
+                min: 0,
+                max: 1,
+                step: 0.01,
+                hidden: (props) => props.mode === "none",
+            },
+        },
+    },
+    fit: {
+        type: ControlType.Object,
+        title: "Fit",
+        controls: {
+            resolution: {
+                type: ControlType.Number,
+                title: "Resolution",
+                defaultValue: 400,
+                min: 100,
+                max: 1200,
+                step: 50,
+                unit: "px",
+            },
+            mode: {
+                type: ControlType.Enum,
+                title: "Mode",
+                options: ["contain", "cover", "stretch", "world"],
+                optionTitles: ["Contain", "Cover", "Stretch", "World Size"],
+                defaultValue: "world",
+            },
+            worldWidth: {
+                type: ControlType.Number,
+                title: "Width",
+                defaultValue: 400,
+                min: 10,
+                max: 2000,
+                step: 10,
+                hidden: (props) => props.mode !== "world",
+            },
+            worldHeight: {
+                type: ControlType.Number,
+                title: "Height",
+                defaultValue: 400,
+                min: 10,
+                max: 2000,
+                step: 10,
+                hidden: (props) => props.mode !== "world",
+            },
+            sharedFrame: {
+                type: ControlType.Boolean,
+                title: "Shared Frame",
+                defaultValue: false,
+            },
+        },
+    },
     force: {
         type: ControlType.Object,
         title: "Forces",
@@ -1408,6 +6070,23 @@ addPropertyControls(FramerImageParticleEffect, {
                 min: 1,
                 max: 10,
                 step: 1,
+                hidden: (props) => props.useParticleCount,
+            },
+            useParticleCount: {
+                type: ControlType.Boolean,
+                title: "Fixed Count",
+                defaultValue: false,
+                enabledTitle: "On",
+                disabledTitle: "Off",
+            },
+            particleCount: {
+                type: ControlType.Number,
+                title: "Count",
+                defaultValue: 8000,
+                min: 100,
+                max: 60000,
+                step: 100,
+                hidden: (props) => !props.useParticleCount,
             },
         },
     },
@@ -0,0 +1,169 @@
+// Frame time against particle count for the typed-array simulation in
+// components/simulation.ts, next to the object-per-particle loop it replaced.
+// Open /benchmark.html with the dev server running.
+import * as THREE from 'three';
+import {
+    createParticlesFromImage, scatterMorphBurst, stepMorph, stepPhysics, writeInstances, type MorphTiming, type ParticleBuffers,
+} from './components/simulation.ts';
+import type { SampledImage } from './components/sampling.ts';
+
+const PARTICLE_COUNTS = [5000, 10000, 20000, 40000, 80000, 160000];
+const FRAMES = 300;
+const WARMUP_FRAMES = 30;
+const TIMING: MorphTiming = { duration: 4000, phaseOneDuration: 1300, phaseTwoDuration: 1300 };
+
+interface FrameStats {
+    mean: number;
+    p95: number;
+    worst: number;
+}
+
+// A square of `count` points with a color gradient, offset so morphs travel.
+const createImage = (count: number, offset: number): SampledImage => {
+    const side = Math.ceil(Math.sqrt(count));
+    const positions = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+        positions[i * 3] = (i % side) - side / 2 + offset;
+        positions[i * 3 + 1] = Math.floor(i / side) - side / 2;
+        colors[i * 3] = (i % side) / side;
+        colors[i * 3 + 1] = Math.floor(i / side) / side;
+        colors[i * 3 + 2] = 0.5;
+    }
+    return { count, positions, colors };
+};
+
+const getStats = (frameTimes: number[]): FrameStats => {
+    const sorted = frameTimes.slice(WARMUP_FRAMES).sort((a, b) => a - b);
+    return {
+        mean: sorted.reduce((sum, time) => sum + time, 0) / sorted.length,
+        p95: sorted[Math.floor(sorted.length * 0.95)],
+        worst: sorted[sorted.length - 1],
+    };
+};
+
+// Runs a whole morph, then the particles settling, over FRAMES frames.
+const measure = (step: (elapsedTime: number | null) => void): FrameStats => {
+    const frameTimes: number[] = [];
+    for (let frame = 0; frame < FRAMES; frame++) {
+        const elapsedTime = frame < FRAMES * 0.8 ? (frame / (FRAMES * 0.8)) * TIMING.duration : null;
+        const start = performance.now();
+        step(elapsedTime);
+        frameTimes.push(performance.now() - start);
+    }
+    return getStats(frameTimes);
+};
+
+const benchmarkTypedArrays = (source: SampledImage, target: SampledImage, mesh: THREE.InstancedMesh): FrameStats => {
+    const particles: ParticleBuffers = createParticlesFromImage(source);
+    particles.targetPosition.set(target.positions);
+    particles.targetColor.set(target.colors);
+    scatterMorphBurst(particles, 'source');
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    const colors = mesh.instanceColor!.array as Float32Array;
+    return measure(elapsedTime => {
+        if (elapsedTime !== null) stepMorph(particles, 'toTarget', elapsedTime, TIMING);
+        stepPhysics(particles, 0, 0, 0, true);
+        writeInstances(particles, matrices, elapsedTime !== null ? colors : null, null);
+    });
+};
+
+const easeInOutCubic = (t: number): number => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// The per-frame work as it was with a THREE.Vector3 and THREE.Color per field,
+// including its allocations.
+const benchmarkObjects = (source: SampledImage, target: SampledImage, mesh: THREE.InstancedMesh): FrameStats => {
+    const particles = Array.from({ length: source.count }, (_, i) => ({
+        currentPosition: new THREE.Vector3().fromArray(source.positions, i * 3),
+        sourcePosition: new THREE.Vector3().fromArray(source.positions, i * 3),
+        targetPosition: new THREE.Vector3().fromArray(target.positions, i * 3),
+        velocity: new THREE.Vector3(),
+        currentColor: new THREE.Color().fromArray(source.colors, i * 3),
+        sourceColor: new THREE.Color().fromArray(source.colors, i * 3),
+        targetColor: new THREE.Color().fromArray(target.colors, i * 3),
+        attractorPosition: new THREE.Vector3().fromArray(source.positions, i * 3),
+        burstPosition: new THREE.Vector3().fromArray(source.positions, i * 3).add(new THREE.Vector3(
+            (Math.random() - 0.5) * 300,
+            (Math.random() - 0.5) * 300,
+            (Math.random() - 0.5) * 300
+        )),
+    }));
+    const dummy = new THREE.Object3D();
+    const pointer = new THREE.Vector3();
+    const { duration, phaseOneDuration, phaseTwoDuration } = TIMING;
+    return measure(elapsedTime => {
+        if (elapsedTime !== null) {
+            const phaseTwoEndTime = phaseOneDuration + phaseTwoDuration;
+            const totalProgress = easeInOutCubic(elapsedTime / duration);
+            particles.forEach((p, i) => {
+                p.currentColor.copy(p.sourceColor).lerp(p.targetColor, totalProgress);
+                const phi = Math.acos(-1 + (2 * i) / particles.length);
+                const theta = Math.sqrt(particles.length * Math.PI) * phi;
+                const spherePos = new THREE.Vector3().setFromSphericalCoords(180, phi, theta);
+                if (elapsedTime < phaseOneDuration) {
+                    const progress = easeInOutCubic(elapsedTime / phaseOneDuration);
+                    p.attractorPosition.lerpVectors(p.sourcePosition, p.burstPosition, progress);
+                } else if (elapsedTime < phaseTwoEndTime) {
+                    const progress = easeInOutCubic((elapsedTime - phaseOneDuration) / phaseTwoDuration);
+                    p.attractorPosition.lerpVectors(p.burstPosition, spherePos, progress);
+                } else {
+                    const progress = easeInOutCubic((elapsedTime - phaseTwoEndTime) / (duration - phaseTwoEndTime));
+                    const intermediatePos = new THREE.Vector3().lerpVectors(spherePos, p.targetPosition, progress);
+                    const travelVector = new THREE.Vector3().subVectors(p.targetPosition, spherePos);
+                    const swirlAxis = new THREE.Vector3(0.3, -0.4, 0.8).normalize();
+                    const perpendicular = new THREE.Vector3().crossVectors(travelVector, swirlAxis).normalize();
+                    if (perpendicular.lengthSq() < 0.1) perpendicular.set(0, 1, 0);
+                    const swirlOffset = perpendicular.multiplyScalar(travelVector.length() * 0.3 * Math.sin(progress * Math.PI));
+                    p.attractorPosition.copy(intermediatePos).add(swirlOffset);
+                }
+            });
+        }
+        for (let i = 0; i < particles.length; i++) {
+            const p = particles[i];
+            const distanceToPointer = p.currentPosition.distanceTo(pointer);
+            if (distanceToPointer < 60) {
+                p.velocity.add(new THREE.Vector3()
+                    .subVectors(p.currentPosition, pointer)
+                    .normalize()
+                    .multiplyScalar((60 - distanceToPointer) / 60 * 0.8));
+            }
+            p.velocity.add(new THREE.Vector3().subVectors(p.attractorPosition, p.currentPosition).multiplyScalar(0.02));
+            p.velocity.multiplyScalar(0.92);
+            p.currentPosition.add(p.velocity);
+            if (elapsedTime !== null) mesh.setColorAt(i, p.currentColor);
+            dummy.position.copy(p.currentPosition);
+            dummy.updateMatrix();
+            mesh.setMatrixAt(i, dummy.matrix);
+        }
+    });
+};
+
+const formatStats = ({ mean, p95, worst }: FrameStats) => `${mean.toFixed(2)} / ${p95.toFixed(2)} / ${worst.toFixed(2)}`;
+
+// Yields to the browser so each row shows up as soon as it is measured.
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const run = async (output: HTMLElement) => {
+    output.textContent = 'particles   objects ms (mean / p95 / worst)   typed arrays ms (mean / p95 / worst)\n';
+    for (const count of PARTICLE_COUNTS) {
+        const source = createImage(count, -100);
+        const target = createImage(count, 100);
+        const mesh = new THREE.InstancedMesh(new THREE.CircleGeometry(1.25, 6), new THREE.MeshBasicMaterial(), count);
+        mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3);
+
+        const objects = benchmarkObjects(source, target, mesh);
+        await nextTask();
+        const typedArrays = benchmarkTypedArrays(source, target, mesh);
+        output.textContent += `${String(count).padEnd(12)}${formatStats(objects).padEnd(34)}${formatStats(typedArrays)}\n`;
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+        await nextTask();
+    }
+    output.textContent += 'done';
+};
+
+const output = document.getElementById('output');
+if (output) {
+    output.textContent = 'running…';
+    setTimeout(() => run(output), 100);
+}
@@ -1,35 +1,362 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
+import { getSampleSize, sampleImagePixels, SAMPLE_DENSITY, type SampledImage } from './sampling.ts';
+import type { SampleRequest, SampleResponse } from './sampling.worker.ts';
+import {
+  copyParticle, createParticleBuffers, createParticlesFromImage, reserveParticles, scatterMorphBurst, scatterPointerBurst,
+  showSide, stepMorph, stepPhysics, stepPointerAttraction, writeInstances, type ParticleBuffers,
+} from './simulation.ts';
 
 type MorphDirection = 'toTarget' | 'toSource' | null;
+// 'cancelled' when a newer morph took over before this one ended
+export type MorphStatus = 'finished' | 'cancelled';
+
+export interface TextSource {
+  text: string;
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeight: number;
+  align: 'left' | 'center' | 'right';
+  color: string;
+}
+
+// An image URL or a text block, loaded the same way as the source and target
+export type KeyframeSource = string | TextSource;
+
+export interface PlaylistOptions {
+  // Advance to the next keyframe on its own once the hold time has passed
+  autoplay: boolean;
+  // Wrap from the last keyframe back to the first
+  loop: boolean;
+  // Milliseconds each keyframe is held; the last entry applies to the rest
+  holdTimes: number[];
+}
 
 interface ImageParticleEffectProps {
   sourceImageUrl: string;
   targetImageUrl: string | null;
+  // When set, the text is rendered and used instead of the image URL
+  sourceText?: TextSource | null;
+  targetText?: TextSource | null;
   morphDirection: MorphDirection;
-  onMorphComplete: (direction: 'toTarget' | 'toSource') => void;
+  // Requesting the other direction mid-morph reverses from where the particles are
+  onMorphComplete: (direction: 'toTarget' | 'toSource', status: MorphStatus) => void;
+  // With two or more keyframes the effect plays them as a playlist instead of
+  // the source/target pair, and morphDirection is ignored
+  keyframes?: KeyframeSource[];
+  // Keyframe to show; changing it morphs straight there from the current one
+  keyframeIndex?: number;
+  playlist?: PlaylistOptions;
+  // Called once a keyframe has been reached
+  onKeyframeChange?: (index: number) => void;
 }
 
-interface Particle {
-    currentPosition: THREE.Vector3;
-    sourcePosition: THREE.Vector3;
-    targetPosition: THREE.Vector3;
-    velocity: THREE.Vector3;
-    currentColor: THREE.Color;
-    sourceColor: THREE.Color;
-    targetColor: THREE.Color;
-    attractorPosition: THREE.Vector3;
-    burstPosition: THREE.Vector3;
-    sphereTargetPosition: THREE.Vector3;
-    mouseBurstPosition: THREE.Vector3;
-}
+const DEFAULT_HOLD_TIME = 2000;
+
+const HILBERT_SIZE = 1024;
+
+// Distance along a Hilbert curve filling a HILBERT_SIZE x HILBERT_SIZE grid.
+const hilbertIndex = (x: number, y: number): number => {
+    let d = 0;
+    for (let s = HILBERT_SIZE / 2; s > 0; s >>= 1) {
+        const rx = (x & s) > 0 ? 1 : 0;
+        const ry = (y & s) > 0 ? 1 : 0;
+        d += s * s * ((3 * rx) ^ ry);
+        if (ry === 0) {
+            if (rx === 1) {
+                x = HILBERT_SIZE - 1 - x;
+                y = HILBERT_SIZE - 1 - y;
+            }
+            const t = x;
+            x = y;
+            y = t;
+        }
+    }
+    return d;
+};
+
+const sortAlongHilbertCurve = (points: THREE.Vector3[], bounds: THREE.Box3): number[] => {
+    const size = bounds.getSize(new THREE.Vector3());
+    const scale = (HILBERT_SIZE - 1) / Math.max(size.x, size.y, 1e-6);
+    const keys = points.map(p => hilbertIndex(
+        Math.floor((p.x - bounds.min.x) * scale),
+        Math.floor((p.y - bounds.min.y) * scale)
+    ));
+    return points.map((_, i) => i).sort((a, b) => keys[a] - keys[b]);
+};
+
+// Pairs every anchor with a point by walking both sets along one Hilbert curve
+// and matching relative ranks, then untangles neighbouring pairs with a windowed
+// 2-opt pass. Returns the point index for each anchor.
+const assignPoints = (anchors: THREE.Vector3[], points: THREE.Vector3[]): Int32Array => {
+    const assignment = new Int32Array(anchors.length);
+    if (points.length === 0) return assignment;
+
+    const bounds = new THREE.Box3().setFromPoints(anchors).union(new THREE.Box3().setFromPoints(points));
+    const anchorOrder = sortAlongHilbertCurve(anchors, bounds);
+    const pointOrder = sortAlongHilbertCurve(points, bounds);
+
+    for (let rank = 0; rank < anchorOrder.length; rank++) {
+        assignment[anchorOrder[rank]] = pointOrder[Math.floor(rank * points.length / anchorOrder.length)];
+    }
+
+    const window = 8;
+    for (let pass = 0; pass < 2; pass++) {
+        for (let rank = 0; rank < anchorOrder.length; rank++) {
+            const a = anchorOrder[rank];
+            for (let k = 1; k <= window && rank + k < anchorOrder.length; k++) {
+                const b = anchorOrder[rank + k];
+                const pa = points[assignment[a]];
+                const pb = points[assignment[b]];
+                const current = anchors[a].distanceToSquared(pa) + anchors[b].distanceToSquared(pb);
+                const swapped = anchors[a].distanceToSquared(pb) + anchors[b].distanceToSquared(pa);
+                if (swapped < current) {
+                    const t = assignment[a];
+                    assignment[a] = assignment[b];
+                    assignment[b] = t;
+                }
+            }
+        }
+    }
+    return assignment;
+};
+
+// Rasterizes multi-line text onto a canvas sized to fit it.
+const renderText = (source: TextSource): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return canvas;
+
+    const font = `${source.fontWeight} ${source.fontSize}px ${source.fontFamily}`;
+    const lines = source.text.split('\n');
+    const lineHeight = source.fontSize * source.lineHeight;
+    const padding = Math.ceil(source.fontSize * 0.25);
+
+    context.font = font;
+    const textWidth = Math.max(1, ...lines.map(line => context.measureText(line).width));
+    canvas.width = Math.ceil(textWidth) + padding * 2;
+    canvas.height = Math.ceil(lineHeight * lines.length) + padding * 2;
+
+    // Resizing the canvas resets the context state
+    context.font = font;
+    context.fillStyle = source.color;
+    context.textAlign = source.align;
+    context.textBaseline = 'middle';
+    const x = source.align === 'left' ? padding : source.align === 'right' ? canvas.width - padding : canvas.width / 2;
+    lines.forEach((line, i) => context.fillText(line, x, padding + lineHeight * (i + 0.5)));
+    return canvas;
+};
+
+const getSourceKey = (source: KeyframeSource): string => typeof source === 'string' ? source : JSON.stringify(source);
+
+const loadSource = (source: KeyframeSource, onLoad: (image: HTMLImageElement | HTMLCanvasElement) => void) => {
+    if (typeof source !== 'string') {
+        // Wait for web fonts so the first render doesn't use a fallback
+        document.fonts.load(`${source.fontWeight} ${source.fontSize}px ${source.fontFamily}`)
+            .catch(() => [])
+            .then(() => onLoad(renderText(source)));
+        return;
+    }
+    const loader = new THREE.ImageLoader();
+    loader.setCrossOrigin('Anonymous');
+    loader.load(source, onLoad);
+};
+
+// One sampling worker is shared by every effect; null when workers are unavailable or it failed.
+let samplingWorker: Worker | null | undefined;
+let nextSampleId = 0;
+const pendingSamples = new Map<number, (result: SampledImage | null) => void>();
+
+const getSamplingWorker = (): Worker | null => {
+    if (samplingWorker !== undefined) return samplingWorker;
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+        samplingWorker = null;
+        return null;
+    }
+    try {
+        const worker = new Worker(new URL('./sampling.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<SampleResponse>) => {
+            const { id, ...result } = event.data;
+            pendingSamples.get(id)?.(result);
+            pendingSamples.delete(id);
+        };
+        worker.onerror = () => {
+            // Anything still waiting is redone on the main thread
+            worker.terminate();
+            samplingWorker = null;
+            pendingSamples.forEach(resolve => resolve(null));
+            pendingSamples.clear();
+        };
+        samplingWorker = worker;
+    } catch {
+        samplingWorker = null;
+    }
+    return samplingWorker;
+};
+
+const sampleOnMainThread = (image: HTMLImageElement | HTMLCanvasElement, width: number, height: number): SampledImage => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return { count: 0, positions: new Float32Array(0), colors: new Float32Array(0) };
+
+    context.drawImage(image, 0, 0, width, height);
+    return sampleImagePixels(context.getImageData(0, 0, width, height).data, width, height);
+};
+
+// Samples an image in the worker so large uploads don't stall the render loop,
+// falling back to the main thread when workers or OffscreenCanvas aren't available.
+const sampleImage = (image: HTMLImageElement | HTMLCanvasElement, onComplete: (result: SampledImage) => void) => {
+    const { width, height } = getSampleSize(image.width, image.height);
+    const worker = getSamplingWorker();
+    if (!worker) {
+        onComplete(sampleOnMainThread(image, width, height));
+        return;
+    }
+
+    createImageBitmap(image, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' })
+        .then(bitmap => {
+            const id = nextSampleId++;
+            pendingSamples.set(id, result => onComplete(result ?? sampleOnMainThread(image, width, height)));
+            const request: SampleRequest = { id, bitmap };
+            worker.postMessage(request, [bitmap]);
+        })
+        .catch(() => onComplete(sampleOnMainThread(image, width, height)));
+};
+
+// Basic material faded by a per-instance visibility.
+const createParticleMaterial = () => {
+    const material = new THREE.MeshBasicMaterial({ transparent: true });
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader = shader.vertexShader
+            .replace('#include <common>', '#include <common>\nattribute float instanceVisibility;\nvarying float vInstanceVisibility;')
+            .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceVisibility = instanceVisibility;');
+        shader.fragmentShader = shader.fragmentShader
+            .replace('#include <common>', '#include <common>\nvarying float vInstanceVisibility;')
+            .replace('#include <opaque_fragment>', 'diffuseColor.a *= vInstanceVisibility;\n#include <opaque_fragment>');
+    };
+    return material;
+};
+
+// Instanced mesh as large as the buffers' capacity, showing their particles.
+const createParticleMesh = (particles: ParticleBuffers) => {
+    const geometry = new THREE.CircleGeometry(1.25, 6);
+    const visibilities = new THREE.InstancedBufferAttribute(new Float32Array(particles.capacity), 1);
+    geometry.setAttribute('instanceVisibility', visibilities);
+    const mesh = new THREE.InstancedMesh(geometry, createParticleMaterial(), particles.capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(particles.capacity * 3), 3);
+    mesh.count = particles.count;
+    writeInstances(particles, mesh.instanceMatrix.array as Float32Array, mesh.instanceColor.array as Float32Array, visibilities.array as Float32Array);
+    return mesh;
+};
+
+const disposeParticleMesh = (mesh: THREE.InstancedMesh) => {
+    mesh.removeFromParent();
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+    mesh.dispose();
+};
+
+// Points one side of every particle at the sampled image, pairing them by the
+// positions on the other side, and grows or shrinks the particles so each
+// pixel is shown by exactly one particle. Surplus particles fan out around a
+// pixel they share and turn invisible, and pixels left over are spawned from
+// the particle holding the nearest pixel along a Hilbert curve, so morphs
+// dissolve the former and grow the latter. Particles invisible on both sides
+// are removed.
+const assignSampledImage = (particles: ParticleBuffers, data: SampledImage, side: 'source' | 'target') => {
+    if (particles.count === 0 || data.count === 0) return;
+    const positions = Array.from({ length: data.count }, (_, i) =>
+        new THREE.Vector3().fromArray(data.positions, i * 3)
+    );
+    const oppositePosition = side === 'target' ? particles.sourcePosition : particles.targetPosition;
+    const oppositeVisibility = side === 'target' ? particles.sourceVisibility : particles.targetVisibility;
+
+    // Particles sharing a pixel fan out on a small sunflower spiral around it
+    const hits = new Uint32Array(data.count);
+    const owners = new Int32Array(data.count).fill(-1);
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    const showPixel = (i: number, index: number) => {
+        // Read the arrays here, spawning may have swapped them for larger ones
+        const position = side === 'target' ? particles.targetPosition : particles.sourcePosition;
+        const color = side === 'target' ? particles.targetColor : particles.sourceColor;
+        const visibility = side === 'target' ? particles.targetVisibility : particles.sourceVisibility;
+        const k = hits[index]++;
+        position[i * 3] = positions[index].x;
+        position[i * 3 + 1] = positions[index].y;
+        position[i * 3 + 2] = positions[index].z;
+        if (k > 0) {
+            const radius = SAMPLE_DENSITY * 0.5 * Math.sqrt(k);
+            position[i * 3] += Math.cos(k * goldenAngle) * radius;
+            position[i * 3 + 1] += Math.sin(k * goldenAngle) * radius;
+        } else {
+            owners[index] = i;
+        }
+        color.set(data.colors.subarray(index * 3, index * 3 + 3), i * 3);
+        visibility[i] = k === 0 ? 1 : 0;
+    };
+    const claimPixels = (group: number[], indices: number[]) => {
+        if (group.length === 0 || indices.length === 0) return;
+        const assignment = assignPoints(group.map(i => new THREE.Vector3().fromArray(oppositePosition, i * 3)), indices.map(i => positions[i]));
+        group.forEach((i, n) => showPixel(i, indices[assignment[n]]));
+    };
+    const getUnclaimed = () => positions.map((_, i) => i).filter(i => hits[i] === 0);
+
+    // Particles shown on the other side claim pixels first
+    const shownOpposite: number[] = [];
+    const hiddenOpposite: number[] = [];
+    for (let i = 0; i < particles.count; i++) {
+        (oppositeVisibility[i] > 0 ? shownOpposite : hiddenOpposite).push(i);
+    }
+    hiddenOpposite.forEach(i => (side === 'target' ? particles.targetVisibility : particles.sourceVisibility)[i] = 0);
+    claimPixels(shownOpposite, getUnclaimed());
+    claimPixels(hiddenOpposite, getUnclaimed());
+
+    const unclaimed = getUnclaimed();
+    if (unclaimed.length > 0) {
+        // Walk the curve both ways so pixels before the first owner get one
+        const order = sortAlongHilbertCurve(positions, new THREE.Box3().setFromPoints(positions));
+        const emitters = new Int32Array(data.count).fill(-1);
+        let emitter = -1;
+        order.forEach(i => {
+            if (owners[i] !== -1) emitter = owners[i];
+            emitters[i] = emitter;
+        });
+        emitter = -1;
+        order.reverse().forEach(i => {
+            if (owners[i] !== -1) emitter = owners[i];
+            if (emitters[i] === -1) emitters[i] = emitter;
+        });
+
+        // Spawned particles start as invisible, motionless copies of their emitter
+        reserveParticles(particles, particles.count + unclaimed.length);
+        unclaimed.forEach(index => {
+            const i = particles.count++;
+            copyParticle(particles, emitters[index], i);
+            particles.velocity.fill(0, i * 3, i * 3 + 3);
+            particles.currentVisibility[i] = 0;
+            particles.sourceVisibility[i] = 0;
+            particles.targetVisibility[i] = 0;
+            showPixel(i, index);
+        });
+    }
 
-const easeInOutCubic = (t: number): number => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    let kept = 0;
+    for (let i = 0; i < particles.count; i++) {
+        if (particles.sourceVisibility[i] === 0 && particles.targetVisibility[i] === 0) continue;
+        if (kept !== i) copyParticle(particles, i, kept);
+        kept++;
+    }
+    particles.count = kept;
+};
 
-const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUrl, targetImageUrl, morphDirection, onMorphComplete }) => {
+const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUrl, targetImageUrl, sourceText = null, targetText = null, morphDirection, onMorphComplete, keyframes, keyframeIndex, playlist, onKeyframeChange }) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const particlesRef = useRef<Particle[]>([]);
-  const targetParticleDataRef = useRef<{ position: THREE.Vector3; color: THREE.Color; }[] | null>(null);
+  const particlesRef = useRef<ParticleBuffers>(createParticleBuffers(0));
+  const targetParticleDataRef = useRef<SampledImage | null>(null);
   const instancedMeshRef = useRef<THREE.InstancedMesh | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -38,69 +365,47 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
   const onMorphCompleteRef = useRef(onMorphComplete);
   const mouseInteractionStateRef = useRef<'none' | 'bursting' | 'attracting'>('none');
   const mouseInteractionStartTimeRef = useRef<number>(0);
+  // Which side the particles rest on between morphs
+  const visibleSideRef = useRef<'source' | 'target'>('source');
+  const keyframeDataRef = useRef(new Map<string, SampledImage>());
+  const onKeyframeChangeRef = useRef(onKeyframeChange);
+  const [shownKeyframe, setShownKeyframe] = useState(0);
+  const [requestedKeyframe, setRequestedKeyframe] = useState(keyframeIndex ?? 0);
+  // Bumped whenever particles or keyframe data become available
+  const [dataVersion, setDataVersion] = useState(0);
+
+  const isPlaylist = keyframes !== undefined && keyframes.length > 1;
+  const initialSource = keyframes?.[0] ?? sourceText ?? sourceImageUrl;
+  const initialSourceKey = getSourceKey(initialSource);
+  const keyframesKey = keyframes ? keyframes.map(getSourceKey).join('\n') : '';
 
 
   useEffect(() => {
     onMorphCompleteRef.current = onMorphComplete;
   }, [onMorphComplete]);
 
+  useEffect(() => {
+    onKeyframeChangeRef.current = onKeyframeChange;
+  }, [onKeyframeChange]);
+
 
   const morphStateRef = useRef({
     isMorphing: false,
     startTime: 0,
     direction: null as MorphDirection,
+    // Keyframe being morphed to, or null for a plain source/target morph
+    keyframe: null as number | null,
+    // The path always runs along pathDirection; a reversed morph plays it
+    // backwards from startProgress so interrupting never jumps
+    pathDirection: 'toTarget' as 'toTarget' | 'toSource',
+    reverse: false,
+    startProgress: 0,
+    progress: 0,
     duration: 4000,
     phaseOneDuration: 1300,
     phaseTwoDuration: 1300,
   });
 
-  const getImageParticleData = useCallback((image: HTMLImageElement, onComplete: (data: { position: THREE.Vector3, color: THREE.Color }[]) => void) => {
-    const data: { position: THREE.Vector3, color: THREE.Color }[] = [];
-    const MAX_WIDTH = 400;
-    const MAX_HEIGHT = 400;
-    let imgWidth = image.width;
-    let imgHeight = image.height;
-
-    const ratio = Math.min(MAX_WIDTH / imgWidth, MAX_HEIGHT / imgHeight);
-    imgWidth = Math.floor(imgWidth * ratio);
-    imgHeight = Math.floor(imgHeight * ratio);
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) return;
-
-    canvas.width = imgWidth;
-    canvas.height = imgHeight;
-    context.drawImage(image, 0, 0, imgWidth, imgHeight);
-    
-    const imageData = context.getImageData(0, 0, imgWidth, imgHeight).data;
-    const density = 2;
-
-    for (let y = 0; y < imgHeight; y += density) {
-        for (let x = 0; x < imgWidth; x += density) {
-            const index = (y * imgWidth + x) * 4;
-            const alpha = imageData[index + 3];
-
-            if (alpha > 128) {
-                const posX = x - imgWidth / 2;
-                const posY = -y + imgHeight / 2;
-                const color = new THREE.Color();
-                color.setRGB(
-                    imageData[index] / 255, 
-                    imageData[index + 1] / 255, 
-                    imageData[index + 2] / 255
-                );
-                color.convertSRGBToLinear(); // Handle color space correctly
-                data.push({
-                    position: new THREE.Vector3(posX, posY, 0),
-                    color: color,
-                });
-            }
-        }
-    }
-    onComplete(data);
-  }, []);
-
   // Main setup effect
   useEffect(() => {
     if (!mountRef.current) return;
@@ -117,42 +422,18 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
     rendererRef.current.outputColorSpace = THREE.SRGBColorSpace;
     currentMount.appendChild(rendererRef.current.domElement);
 
-    const dummy = new THREE.Object3D();
+    visibleSideRef.current = 'source';
+    morphStateRef.current.isMorphing = false;
+    setShownKeyframe(0);
 
-    const loader = new THREE.ImageLoader();
-    loader.setCrossOrigin('Anonymous');
-    loader.load(sourceImageUrl, (image) => {
-        getImageParticleData(image, (sourceData) => {
-            if (sourceData.length === 0) return;
-
-            particlesRef.current = sourceData.map(data => ({
-                currentPosition: data.position.clone(),
-                sourcePosition: data.position.clone(),
-                targetPosition: data.position.clone(), // Initially same as source
-                velocity: new THREE.Vector3(0, 0, 0),
-                currentColor: data.color.clone(),
-                sourceColor: data.color.clone(),
-                targetColor: data.color.clone(), // Initially same as source
-                attractorPosition: data.position.clone(),
-                burstPosition: new THREE.Vector3(),
-                sphereTargetPosition: new THREE.Vector3(),
-                mouseBurstPosition: new THREE.Vector3(),
-            }));
-
-            const particleCount = particlesRef.current.length;
-            const particleGeometry = new THREE.CircleGeometry(1.25, 6);
-            const particleMaterial = new THREE.MeshBasicMaterial();
-            instancedMeshRef.current = new THREE.InstancedMesh(particleGeometry, particleMaterial, particleCount);
-            instancedMeshRef.current.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
-
-            for (let i = 0; i < particleCount; i++) {
-                const p = particlesRef.current[i];
-                dummy.position.copy(p.currentPosition);
-                dummy.updateMatrix();
-                instancedMeshRef.current.setMatrixAt(i, dummy.matrix);
-                instancedMeshRef.current.setColorAt(i, p.currentColor);
-            }
+    loadSource(initialSource, (image) => {
+        sampleImage(image, (sourceData) => {
+            if (sourceData.count === 0) return;
+
+            particlesRef.current = createParticlesFromImage(sourceData);
+            instancedMeshRef.current = createParticleMesh(particlesRef.current);
             sceneRef.current?.add(instancedMeshRef.current);
+            setDataVersion(version => version + 1);
         });
     });
 
@@ -166,25 +447,7 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
     const handleMouseDown = () => {
         mouseInteractionStateRef.current = 'bursting';
         mouseInteractionStartTimeRef.current = performance.now();
-        const burstRadius = 150;
-        const sphereRadius = 120;
-    
-        particlesRef.current.forEach(p => {
-            // Target for the initial burst phase, relative to current position
-            p.mouseBurstPosition.copy(p.currentPosition).add(
-                new THREE.Vector3(
-                    (Math.random() - 0.5) * burstRadius,
-                    (Math.random() - 0.5) * burstRadius,
-                    (Math.random() - 0.5) * burstRadius
-                )
-            );
-    
-            // Target for the final sphere attraction phase, relative to cursor
-            const r = sphereRadius * Math.cbrt(Math.random());
-            const theta = Math.random() * 2 * Math.PI;
-            const phi = Math.acos(2 * Math.random() - 1);
-            p.sphereTargetPosition.setFromSphericalCoords(r, phi, theta);
-        });
+        scatterPointerBurst(particlesRef.current);
     };
     const handleMouseUp = () => {
         // By only changing the state, we allow the particles to retain their velocity.
@@ -200,52 +463,47 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
 
     // Animation loop
     const mouse3D = new THREE.Vector3();
+    const pointer = new THREE.Vector3();
     const animate = () => {
         animationFrameIdRef.current = requestAnimationFrame(animate);
-        if (!cameraRef.current || !sceneRef.current || !rendererRef.current || !instancedMeshRef.current || particlesRef.current.length === 0) return;
+        const particles = particlesRef.current;
+        if (!cameraRef.current || !sceneRef.current || !rendererRef.current || !instancedMeshRef.current || particles.count === 0) return;
 
         mouse3D.set(mouse.x, mouse.y, 0.5);
         mouse3D.unproject(cameraRef.current);
         const dir = mouse3D.sub(cameraRef.current.position).normalize();
         const distance = -cameraRef.current.position.z / dir.z;
-        const pos = cameraRef.current.position.clone().add(dir.multiplyScalar(distance));
+        pointer.copy(cameraRef.current.position).addScaledVector(dir, distance);
 
         let needsColorUpdate = false;
+
+        // New image data may have spawned or removed particles
+        if (particles.count > instancedMeshRef.current.instanceMatrix.count) {
+            const mesh = createParticleMesh(particles);
+            disposeParticleMesh(instancedMeshRef.current);
+            sceneRef.current.add(mesh);
+            instancedMeshRef.current = mesh;
+        }
+        if (instancedMeshRef.current.count !== particles.count) {
+            instancedMeshRef.current.count = particles.count;
+            needsColorUpdate = true;
+        }
+        const mesh = instancedMeshRef.current;
+        const visibilityAttribute = mesh.geometry.getAttribute('instanceVisibility') as THREE.InstancedBufferAttribute;
         
         const mouseState = mouseInteractionStateRef.current;
         const mouseInteractionBurstDuration = 400; // ms
 
         if (mouseState !== 'none') {
             const interactionElapsedTime = performance.now() - mouseInteractionStartTimeRef.current;
+            if (mouseState === 'bursting' && interactionElapsedTime > mouseInteractionBurstDuration) {
+                // Transition state after duration. Logic will apply on the next frame.
+                mouseInteractionStateRef.current = 'attracting';
+            }
+            stepPointerAttraction(particles, mouseState, pointer.x, pointer.y, pointer.z);
 
-            particlesRef.current.forEach((p, i) => {
-                let targetPosition: THREE.Vector3 | null = null;
-                let lerpFactor = 0.04;
-
-                if (mouseState === 'bursting') {
-                    if (interactionElapsedTime > mouseInteractionBurstDuration) {
-                        // Transition state after duration. Logic will apply on the next frame.
-                        mouseInteractionStateRef.current = 'attracting';
-                    }
-                    targetPosition = p.mouseBurstPosition;
-                    lerpFactor = 0.08; // A faster burst
-                } else if (mouseState === 'attracting') {
-                    targetPosition = pos.clone().add(p.sphereTargetPosition);
-                    lerpFactor = 0.04; // Gentle attraction
-                }
-
-                if (targetPosition) {
-                    const oldPosition = p.currentPosition.clone();
-                    p.currentPosition.lerp(targetPosition, lerpFactor);
-                    p.velocity.subVectors(p.currentPosition, oldPosition);
-
-                    dummy.position.copy(p.currentPosition);
-                    dummy.updateMatrix();
-                    instancedMeshRef.current!.setMatrixAt(i, dummy.matrix);
-                }
-            });
-
-            instancedMeshRef.current!.instanceMatrix.needsUpdate = true;
+            writeInstances(particles, mesh.instanceMatrix.array as Float32Array, null, null);
+            mesh.instanceMatrix.needsUpdate = true;
             rendererRef.current.render(sceneRef.current, cameraRef.current);
             return; // Skip other physics during mouse interaction
         }
@@ -253,99 +511,39 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
 
         const morphState = morphStateRef.current;
         if (morphState.isMorphing) {
-            const elapsedTime = performance.now() - morphState.startTime;
-            const { duration, phaseOneDuration, phaseTwoDuration, direction } = morphState;
-            const phaseTwoEndTime = phaseOneDuration + phaseTwoDuration;
-
-            if (elapsedTime >= duration) { // Morph ended
-                particlesRef.current.forEach(p => {
-                    p.attractorPosition.copy(direction === 'toTarget' ? p.targetPosition : p.sourcePosition);
-                    p.currentColor.copy(direction === 'toTarget' ? p.targetColor : p.sourceColor);
-                });
+            const { duration, direction, reverse } = morphState;
+            const elapsed = performance.now() - morphState.startTime;
+            morphState.progress = THREE.MathUtils.clamp(morphState.startProgress + (reverse ? -elapsed : elapsed) / duration, 0, 1);
+
+            if (reverse ? morphState.progress <= 0 : morphState.progress >= 1) { // Morph ended
+                showSide(particles, direction === 'toTarget' ? 'target' : 'source');
                 morphState.isMorphing = false;
-                onMorphCompleteRef.current(direction!);
-                needsColorUpdate = true;
-            } else { // Morph in progress
-                const sphereRadius = 180;
-                const totalProgress = easeInOutCubic(elapsedTime / duration);
-
-                particlesRef.current.forEach((p, i) => {
-                    const startColor = direction === 'toTarget' ? p.sourceColor : p.targetColor;
-                    const endColor = direction === 'toTarget' ? p.targetColor : p.sourceColor;
-                    p.currentColor.copy(startColor).lerp(endColor, totalProgress);
-                    needsColorUpdate = true;
-
-                    const currentStartPos = direction === 'toTarget' ? p.sourcePosition : p.targetPosition;
-                    const currentEndPos = direction === 'toTarget' ? p.targetPosition : p.sourcePosition;
-                    const phi = Math.acos(-1 + (2 * i) / particlesRef.current.length);
-                    const theta = Math.sqrt(particlesRef.current.length * Math.PI) * phi;
-                    
-                    const spherePos = new THREE.Vector3().setFromSphericalCoords(sphereRadius, phi, theta);
-                   
-                    if (elapsedTime < phaseOneDuration) {
-                        const progress = easeInOutCubic(elapsedTime / phaseOneDuration);
-                        p.attractorPosition.lerpVectors(currentStartPos, p.burstPosition, progress);
-                    } else if (elapsedTime < phaseTwoEndTime) {
-                        const progress = easeInOutCubic((elapsedTime - phaseOneDuration) / phaseTwoDuration);
-                        p.attractorPosition.lerpVectors(p.burstPosition, spherePos, progress);
-                    } else {
-                        const phaseThreeDuration = duration - phaseTwoEndTime;
-                        const progress = easeInOutCubic((elapsedTime - phaseTwoEndTime) / phaseThreeDuration);
-                        
-                        // Swirling motion to avoid straight lines
-                        const intermediatePos = new THREE.Vector3().lerpVectors(spherePos, currentEndPos, progress);
-                        const travelVector = new THREE.Vector3().subVectors(currentEndPos, spherePos);
-                        const swirlAxis = new THREE.Vector3(0.3, -0.4, 0.8).normalize();
-                        const perpendicular = new THREE.Vector3().crossVectors(travelVector, swirlAxis).normalize();
-                        
-                        if (perpendicular.lengthSq() < 0.1) { // Fallback if parallel
-                            perpendicular.set(0, 1, 0);
-                        }
-                        
-                        const swirlAmplitude = travelVector.length() * 0.3 * Math.sin(progress * Math.PI);
-                        const swirlOffset = perpendicular.multiplyScalar(swirlAmplitude);
-
-                        p.attractorPosition.copy(intermediatePos).add(swirlOffset);
-                    }
-                });
-            }
-        }
-        
-        const returnStrength = 0.02, damping = 0.92;
-        const pushRadius = 60;
-        const pushStrength = 0.8;
-
-        for (let i = 0; i < particlesRef.current.length; i++) {
-            const p = particlesRef.current[i];
-
-            // Mouse push force (only when not attracting)
-            if (mouseInteractionStateRef.current === 'none') {
-                const distanceToMouse = p.currentPosition.distanceTo(pos);
-                if (distanceToMouse < pushRadius) {
-                    const pushForce = new THREE.Vector3()
-                        .subVectors(p.currentPosition, pos)
-                        .normalize()
-                        .multiplyScalar((pushRadius - distanceToMouse) / pushRadius)
-                        .multiplyScalar(pushStrength);
-                    p.velocity.add(pushForce);
+                visibleSideRef.current = direction === 'toTarget' ? 'target' : 'source';
+                if (morphState.keyframe === null) {
+                    onMorphCompleteRef.current(direction!, 'finished');
+                } else {
+                    setShownKeyframe(morphState.keyframe);
+                    onKeyframeChangeRef.current?.(morphState.keyframe);
                 }
+            } else { // Morph in progress
+                // Position along the path, which runs backwards when reversed
+                stepMorph(particles, morphState.pathDirection, morphState.progress * duration, morphState);
             }
-            
-            // Return to attractor force
-            const returnForce = new THREE.Vector3().subVectors(p.attractorPosition, p.currentPosition).multiplyScalar(returnStrength);
-            p.velocity.add(returnForce);
-            p.velocity.multiplyScalar(damping);
-            p.currentPosition.add(p.velocity);
-            
-            if (needsColorUpdate) instancedMeshRef.current.setColorAt(i, p.currentColor);
-            dummy.position.copy(p.currentPosition);
-            dummy.updateMatrix();
-            instancedMeshRef.current.setMatrixAt(i, dummy.matrix);
+            needsColorUpdate = true;
         }
 
-        instancedMeshRef.current.instanceMatrix.needsUpdate = true;
+        stepPhysics(particles, pointer.x, pointer.y, pointer.z, mouseInteractionStateRef.current === 'none');
+
+        writeInstances(
+            particles,
+            mesh.instanceMatrix.array as Float32Array,
+            needsColorUpdate ? mesh.instanceColor!.array as Float32Array : null,
+            needsColorUpdate ? visibilityAttribute.array as Float32Array : null
+        );
+        mesh.instanceMatrix.needsUpdate = true;
         if (needsColorUpdate) {
-            instancedMeshRef.current.instanceColor!.needsUpdate = true;
+            mesh.instanceColor!.needsUpdate = true;
+            visibilityAttribute.needsUpdate = true;
         }
 
         rendererRef.current.render(sceneRef.current, cameraRef.current);
@@ -376,55 +574,110 @@ const ImageParticleEffect: React.FC<ImageParticleEffectProps> = ({ sourceImageUr
             currentMount.removeChild(rendererRef.current.domElement);
         }
     };
-  }, [sourceImageUrl, getImageParticleData]);
+  }, [initialSourceKey]);
 
-  // Handle target image loading
+  // Handle target image or text loading
   useEffect(() => {
-    if (targetImageUrl) {
-      const loader = new THREE.ImageLoader();
-      loader.setCrossOrigin('Anonymous');
-      loader.load(targetImageUrl, (image) => {
-        getImageParticleData(image, (targetData) => {
+    const target = targetText ?? targetImageUrl;
+    if (target) {
+      loadSource(target, (image) => {
+        sampleImage(image, (targetData) => {
           targetParticleDataRef.current = targetData;
+          // Retarget a morph already heading for the target without restarting it
+          const morphState = morphStateRef.current;
+          if (!isPlaylist && morphState.isMorphing && morphState.direction === 'toTarget' && morphState.pathDirection === 'toTarget') {
+            assignSampledImage(particlesRef.current, targetData, 'target');
+          }
         });
       });
     }
-  }, [targetImageUrl, getImageParticleData]);
+  }, [targetImageUrl, targetText]);
+
+  const startMorph = (direction: 'toTarget' | 'toSource', keyframe: number | null) => {
+    scatterMorphBurst(particlesRef.current, direction === 'toTarget' ? 'source' : 'target');
+
+    morphStateRef.current.isMorphing = true;
+    morphStateRef.current.startTime = performance.now();
+    morphStateRef.current.direction = direction;
+    morphStateRef.current.keyframe = keyframe;
+    morphStateRef.current.pathDirection = direction;
+    morphStateRef.current.reverse = false;
+    morphStateRef.current.startProgress = 0;
+    morphStateRef.current.progress = 0;
+  };
+
+  // Heads back the way the particles came, continuing from where they are so
+  // positions and velocities carry straight over
+  const reverseMorph = (direction: 'toTarget' | 'toSource') => {
+    const morphState = morphStateRef.current;
+    if (direction === morphState.direction) return;
+    onMorphCompleteRef.current(morphState.direction!, 'cancelled');
+    morphState.reverse = direction !== morphState.pathDirection;
+    morphState.startProgress = morphState.progress;
+    morphState.startTime = performance.now();
+    morphState.direction = direction;
+  };
 
   // Handle morphing trigger
   useEffect(() => {
-    if (morphDirection && targetParticleDataRef.current) {
-        const sourceParticles = particlesRef.current;
-        const targetParticles = targetParticleDataRef.current;
-        const numParticles = Math.min(sourceParticles.length, targetParticles.length);
-        
-        for (let i = 0; i < numParticles; i++) {
-            sourceParticles[i].targetPosition.copy(targetParticles[i].position);
-            sourceParticles[i].targetColor.copy(targetParticles[i].color);
-        }
+    if (isPlaylist) return;
+    if (morphDirection && morphStateRef.current.isMorphing) {
+        reverseMorph(morphDirection);
+    } else if (morphDirection && targetParticleDataRef.current) {
+        assignSampledImage(particlesRef.current, targetParticleDataRef.current, 'target');
+        startMorph(morphDirection, null);
+    }
+  }, [morphDirection]);
 
-        if (sourceParticles.length > numParticles) {
-            for (let i = numParticles; i < sourceParticles.length; i++) {
-                const targetIndex = i % numParticles;
-                sourceParticles[i].targetPosition.copy(targetParticles[targetIndex].position);
-                sourceParticles[i].targetColor.copy(targetParticles[targetIndex].color);
-            }
-        }
-        
-        particlesRef.current.forEach(p => {
-             const burstRadius = 300;
-             p.burstPosition.copy(p.sourcePosition).add(new THREE.Vector3(
-                (Math.random() - 0.5) * burstRadius,
-                (Math.random() - 0.5) * burstRadius,
-                (Math.random() - 0.5) * burstRadius
-             ));
+  // Sample every keyframe up front so stepping to any of them is instant
+  useEffect(() => {
+    if (!keyframes) return;
+    let cancelled = false;
+    keyframes.forEach(source => {
+      const key = getSourceKey(source);
+      if (keyframeDataRef.current.has(key)) return;
+      loadSource(source, (image) => {
+        sampleImage(image, (data) => {
+          if (cancelled) return;
+          keyframeDataRef.current.set(key, data);
+          setDataVersion(version => version + 1);
         });
+      });
+    });
+    return () => { cancelled = true; };
+  }, [keyframesKey]);
+
+  useEffect(() => {
+    if (keyframeIndex !== undefined) setRequestedKeyframe(keyframeIndex);
+  }, [keyframeIndex]);
 
-        morphStateRef.current.isMorphing = true;
-        morphStateRef.current.startTime = performance.now();
-        morphStateRef.current.direction = morphDirection;
+  // Morph to the requested keyframe through whichever side is hidden; requests
+  // made mid-morph are picked up once the current one completes
+  useEffect(() => {
+    if (!isPlaylist || morphStateRef.current.isMorphing || particlesRef.current.count === 0) return;
+    const index = Math.min(Math.max(Math.round(requestedKeyframe), 0), keyframes.length - 1);
+    if (index === shownKeyframe) return;
+    const data = keyframeDataRef.current.get(getSourceKey(keyframes[index]));
+    if (!data || data.count === 0) return;
+
+    const hiddenSide = visibleSideRef.current === 'source' ? 'target' : 'source';
+    assignSampledImage(particlesRef.current, data, hiddenSide);
+    startMorph(hiddenSide === 'target' ? 'toTarget' : 'toSource', index);
+  }, [isPlaylist, keyframesKey, requestedKeyframe, shownKeyframe, dataVersion]);
+
+  // Autoplay holds each keyframe before requesting the next
+  useEffect(() => {
+    if (!isPlaylist || !playlist?.autoplay || requestedKeyframe !== shownKeyframe) return;
+    let next = shownKeyframe + 1;
+    if (next >= keyframes.length) {
+      if (!playlist.loop) return;
+      next = 0;
     }
-  }, [morphDirection]);
+    const { holdTimes } = playlist;
+    const holdTime = holdTimes[shownKeyframe] ?? holdTimes[holdTimes.length - 1] ?? DEFAULT_HOLD_TIME;
+    const timeout = window.setTimeout(() => setRequestedKeyframe(next), holdTime);
+    return () => window.clearTimeout(timeout);
+  }, [isPlaylist, keyframesKey, playlist?.autoplay, playlist?.loop, playlist?.holdTimes.join(','), requestedKeyframe, shownKeyframe]);
 
   return <div ref={mountRef} style={{ width: '100vw', height: '100vh', position: 'absolute', top: 0, left: 0 }} />;
 };
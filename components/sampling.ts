@@ -0,0 +1,52 @@
+// Pixel sampling shared by the sampling worker and its main-thread fallback.
+// Nothing in here may touch the DOM or three.js so it can run in a worker.
+
+export interface SampledImage {
+    count: number;
+    // x, y, z per particle in world units centered on the image
+    positions: Float32Array;
+    // r, g, b per particle in linear color space
+    colors: Float32Array;
+}
+
+export const MAX_SAMPLE_SIZE = 400;
+export const SAMPLE_DENSITY = 2;
+const ALPHA_THRESHOLD = 128;
+
+// Size an image is drawn at before sampling: fits inside MAX_SAMPLE_SIZE.
+export const getSampleSize = (width: number, height: number) => {
+    const ratio = Math.min(MAX_SAMPLE_SIZE / width, MAX_SAMPLE_SIZE / height);
+    return {
+        width: Math.max(1, Math.floor(width * ratio)),
+        height: Math.max(1, Math.floor(height * ratio)),
+    };
+};
+
+const srgbToLinear = (c: number): number =>
+    c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4);
+
+// Keeps every SAMPLE_DENSITY-th opaque pixel, writing straight into typed arrays.
+export const sampleImagePixels = (pixels: Uint8ClampedArray, width: number, height: number): SampledImage => {
+    const maxCount = Math.ceil(width / SAMPLE_DENSITY) * Math.ceil(height / SAMPLE_DENSITY);
+    const positions = new Float32Array(maxCount * 3);
+    const colors = new Float32Array(maxCount * 3);
+    let count = 0;
+
+    for (let y = 0; y < height; y += SAMPLE_DENSITY) {
+        for (let x = 0; x < width; x += SAMPLE_DENSITY) {
+            const index = (y * width + x) * 4;
+            if (pixels[index + 3] <= ALPHA_THRESHOLD) continue;
+
+            positions[count * 3] = x - width / 2;
+            positions[count * 3 + 1] = -y + height / 2;
+            positions[count * 3 + 2] = 0;
+            colors[count * 3] = srgbToLinear(pixels[index] / 255);
+            colors[count * 3 + 1] = srgbToLinear(pixels[index + 1] / 255);
+            colors[count * 3 + 2] = srgbToLinear(pixels[index + 2] / 255);
+            count++;
+        }
+    }
+
+    // Trim to the particles actually kept so the transfer stays small
+    return { count, positions: positions.slice(0, count * 3), colors: colors.slice(0, count * 3) };
+};
@@ -0,0 +1,35 @@
+import { sampleImagePixels } from './sampling.ts';
+
+export interface SampleRequest {
+    id: number;
+    // Already resized to the sampling size by createImageBitmap
+    bitmap: ImageBitmap;
+}
+
+export interface SampleResponse {
+    id: number;
+    count: number;
+    positions: Float32Array;
+    colors: Float32Array;
+}
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<SampleRequest>) => {
+    const { id, bitmap } = event.data;
+    const { width, height } = bitmap;
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        worker.postMessage({ id, count: 0, positions: new Float32Array(0), colors: new Float32Array(0) });
+        return;
+    }
+
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const { count, positions, colors } = sampleImagePixels(context.getImageData(0, 0, width, height).data, width, height);
+
+    const response: SampleResponse = { id, count, positions, colors };
+    worker.postMessage(response, [positions.buffer, colors.buffer]);
+};
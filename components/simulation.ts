@@ -0,0 +1,296 @@
+// Particle simulation over contiguous typed arrays, shared by the effect and
+// the benchmark. Vectors are stored as x, y, z runs and colors as r, g, b runs.
+// Nothing in here allocates per frame or touches the DOM or three.js.
+
+import type { SampledImage } from './sampling.ts';
+
+export interface ParticleBuffers {
+    count: number;
+    // Particles the arrays have room for; grown by reserveParticles
+    capacity: number;
+    currentPosition: Float32Array;
+    sourcePosition: Float32Array;
+    targetPosition: Float32Array;
+    velocity: Float32Array;
+    attractorPosition: Float32Array;
+    burstPosition: Float32Array;
+    sphereTargetPosition: Float32Array;
+    mouseBurstPosition: Float32Array;
+    currentColor: Float32Array;
+    sourceColor: Float32Array;
+    targetColor: Float32Array;
+    // 1 where that side has a point of its own, 0 where the particle only grows
+    // out of or dissolves into a neighbour; scales and fades the particle
+    currentVisibility: Float32Array;
+    sourceVisibility: Float32Array;
+    targetVisibility: Float32Array;
+}
+
+export interface MorphTiming {
+    duration: number;
+    phaseOneDuration: number;
+    phaseTwoDuration: number;
+}
+
+type VectorField =
+    | 'currentPosition' | 'sourcePosition' | 'targetPosition' | 'velocity' | 'attractorPosition'
+    | 'burstPosition' | 'sphereTargetPosition' | 'mouseBurstPosition'
+    | 'currentColor' | 'sourceColor' | 'targetColor';
+type ScalarField = 'currentVisibility' | 'sourceVisibility' | 'targetVisibility';
+
+const VECTOR_FIELDS: VectorField[] = [
+    'currentPosition', 'sourcePosition', 'targetPosition', 'velocity', 'attractorPosition',
+    'burstPosition', 'sphereTargetPosition', 'mouseBurstPosition',
+    'currentColor', 'sourceColor', 'targetColor',
+];
+const SCALAR_FIELDS: ScalarField[] = ['currentVisibility', 'sourceVisibility', 'targetVisibility'];
+
+const MORPH_SPHERE_RADIUS = 180;
+const MORPH_BURST_RADIUS = 300;
+const POINTER_BURST_RADIUS = 150;
+const POINTER_SPHERE_RADIUS = 120;
+const RETURN_STRENGTH = 0.02;
+const DAMPING = 0.92;
+const PUSH_RADIUS = 60;
+const PUSH_STRENGTH = 0.8;
+
+// Swirl axis for the last morph phase, (0.3, -0.4, 0.8) normalized
+const SWIRL_LENGTH = Math.sqrt(0.3 * 0.3 + 0.4 * 0.4 + 0.8 * 0.8);
+const SWIRL_X = 0.3 / SWIRL_LENGTH;
+const SWIRL_Y = -0.4 / SWIRL_LENGTH;
+const SWIRL_Z = 0.8 / SWIRL_LENGTH;
+
+const easeInOutCubic = (t: number): number => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export const createParticleBuffers = (capacity: number): ParticleBuffers => {
+    const buffers = { count: 0, capacity } as ParticleBuffers;
+    VECTOR_FIELDS.forEach(field => buffers[field] = new Float32Array(capacity * 3));
+    SCALAR_FIELDS.forEach(field => buffers[field] = new Float32Array(capacity));
+    return buffers;
+};
+
+// Particles resting on a sampled image, with both sides showing it.
+export const createParticlesFromImage = (data: SampledImage): ParticleBuffers => {
+    const buffers = createParticleBuffers(data.count);
+    buffers.count = data.count;
+    const positions = data.positions.subarray(0, data.count * 3);
+    const colors = data.colors.subarray(0, data.count * 3);
+    buffers.currentPosition.set(positions);
+    buffers.sourcePosition.set(positions);
+    buffers.targetPosition.set(positions);
+    buffers.attractorPosition.set(positions);
+    buffers.currentColor.set(colors);
+    buffers.sourceColor.set(colors);
+    buffers.targetColor.set(colors);
+    SCALAR_FIELDS.forEach(field => buffers[field].fill(1));
+    return buffers;
+};
+
+// Makes room for at least `count` particles, swapping in larger arrays in place
+// so anything holding the buffers sees them.
+export const reserveParticles = (buffers: ParticleBuffers, count: number) => {
+    if (count <= buffers.capacity) return;
+    const capacity = Math.max(count, Math.ceil(buffers.capacity * 1.5));
+    VECTOR_FIELDS.forEach(field => {
+        const array = new Float32Array(capacity * 3);
+        array.set(buffers[field].subarray(0, buffers.count * 3));
+        buffers[field] = array;
+    });
+    SCALAR_FIELDS.forEach(field => {
+        const array = new Float32Array(capacity);
+        array.set(buffers[field].subarray(0, buffers.count));
+        buffers[field] = array;
+    });
+    buffers.capacity = capacity;
+};
+
+export const copyParticle = (buffers: ParticleBuffers, from: number, to: number) => {
+    VECTOR_FIELDS.forEach(field => buffers[field].copyWithin(to * 3, from * 3, from * 3 + 3));
+    SCALAR_FIELDS.forEach(field => buffers[field][to] = buffers[field][from]);
+};
+
+// Shows one side's positions, colors and visibilities right away.
+export const showSide = (buffers: ParticleBuffers, side: 'source' | 'target') => {
+    const { count } = buffers;
+    buffers.attractorPosition.set((side === 'target' ? buffers.targetPosition : buffers.sourcePosition).subarray(0, count * 3));
+    buffers.currentColor.set((side === 'target' ? buffers.targetColor : buffers.sourceColor).subarray(0, count * 3));
+    buffers.currentVisibility.set((side === 'target' ? buffers.targetVisibility : buffers.sourceVisibility).subarray(0, count));
+};
+
+// Rolls the burst each particle flies out to at the start of a morph.
+export const scatterMorphBurst = (buffers: ParticleBuffers, side: 'source' | 'target') => {
+    const start = side === 'target' ? buffers.targetPosition : buffers.sourcePosition;
+    const { burstPosition } = buffers;
+    for (let j = 0; j < buffers.count * 3; j++) {
+        burstPosition[j] = start[j] + (Math.random() - 0.5) * MORPH_BURST_RADIUS;
+    }
+};
+
+// Rolls where each particle bursts to and where it then settles in the
+// sphere around the pointer when the pointer is pressed.
+export const scatterPointerBurst = (buffers: ParticleBuffers) => {
+    const { currentPosition, mouseBurstPosition, sphereTargetPosition } = buffers;
+    for (let i = 0; i < buffers.count; i++) {
+        const j = i * 3;
+        mouseBurstPosition[j] = currentPosition[j] + (Math.random() - 0.5) * POINTER_BURST_RADIUS;
+        mouseBurstPosition[j + 1] = currentPosition[j + 1] + (Math.random() - 0.5) * POINTER_BURST_RADIUS;
+        mouseBurstPosition[j + 2] = currentPosition[j + 2] + (Math.random() - 0.5) * POINTER_BURST_RADIUS;
+
+        const r = POINTER_SPHERE_RADIUS * Math.cbrt(Math.random());
+        const theta = Math.random() * 2 * Math.PI;
+        const phi = Math.acos(2 * Math.random() - 1);
+        sphereTargetPosition[j] = r * Math.sin(phi) * Math.sin(theta);
+        sphereTargetPosition[j + 1] = r * Math.cos(phi);
+        sphereTargetPosition[j + 2] = r * Math.sin(phi) * Math.cos(theta);
+    }
+};
+
+/**
+ * Moves every attractor along the three-phase morph path at `elapsedTime`
+ * into the morph: out to the burst, onto a Fibonacci sphere, then swirling
+ * down to the end side. Colors and visibilities blend over the whole morph.
+ */
+export const stepMorph = (buffers: ParticleBuffers, pathDirection: 'toTarget' | 'toSource', elapsedTime: number, timing: MorphTiming) => {
+    const { count, attractorPosition, burstPosition, currentColor, currentVisibility } = buffers;
+    const toTarget = pathDirection === 'toTarget';
+    const start = toTarget ? buffers.sourcePosition : buffers.targetPosition;
+    const end = toTarget ? buffers.targetPosition : buffers.sourcePosition;
+    const startColor = toTarget ? buffers.sourceColor : buffers.targetColor;
+    const endColor = toTarget ? buffers.targetColor : buffers.sourceColor;
+    const startVisibility = toTarget ? buffers.sourceVisibility : buffers.targetVisibility;
+    const endVisibility = toTarget ? buffers.targetVisibility : buffers.sourceVisibility;
+
+    const { duration, phaseOneDuration, phaseTwoDuration } = timing;
+    const phaseTwoEndTime = phaseOneDuration + phaseTwoDuration;
+    const totalProgress = easeInOutCubic(elapsedTime / duration);
+    const sphereTurns = Math.sqrt(count * Math.PI);
+
+    let phase = 2;
+    let progress = easeInOutCubic((elapsedTime - phaseTwoEndTime) / (duration - phaseTwoEndTime));
+    if (elapsedTime < phaseOneDuration) {
+        phase = 0;
+        progress = easeInOutCubic(elapsedTime / phaseOneDuration);
+    } else if (elapsedTime < phaseTwoEndTime) {
+        phase = 1;
+        progress = easeInOutCubic((elapsedTime - phaseOneDuration) / phaseTwoDuration);
+    }
+    const swirl = 0.3 * Math.sin(progress * Math.PI);
+
+    for (let i = 0; i < count; i++) {
+        const j = i * 3;
+        for (let k = j; k < j + 3; k++) {
+            currentColor[k] = startColor[k] + (endColor[k] - startColor[k]) * totalProgress;
+        }
+        currentVisibility[i] = startVisibility[i] + (endVisibility[i] - startVisibility[i]) * totalProgress;
+
+        if (phase === 0) {
+            for (let k = j; k < j + 3; k++) {
+                attractorPosition[k] = start[k] + (burstPosition[k] - start[k]) * progress;
+            }
+            continue;
+        }
+
+        const phi = Math.acos(-1 + (2 * i) / count);
+        const theta = sphereTurns * phi;
+        const sphereX = MORPH_SPHERE_RADIUS * Math.sin(phi) * Math.sin(theta);
+        const sphereY = MORPH_SPHERE_RADIUS * Math.cos(phi);
+        const sphereZ = MORPH_SPHERE_RADIUS * Math.sin(phi) * Math.cos(theta);
+
+        if (phase === 1) {
+            attractorPosition[j] = burstPosition[j] + (sphereX - burstPosition[j]) * progress;
+            attractorPosition[j + 1] = burstPosition[j + 1] + (sphereY - burstPosition[j + 1]) * progress;
+            attractorPosition[j + 2] = burstPosition[j + 2] + (sphereZ - burstPosition[j + 2]) * progress;
+            continue;
+        }
+
+        // Swirling motion to avoid straight lines
+        const travelX = end[j] - sphereX;
+        const travelY = end[j + 1] - sphereY;
+        const travelZ = end[j + 2] - sphereZ;
+        let perpendicularX = travelY * SWIRL_Z - travelZ * SWIRL_Y;
+        let perpendicularY = travelZ * SWIRL_X - travelX * SWIRL_Z;
+        let perpendicularZ = travelX * SWIRL_Y - travelY * SWIRL_X;
+        const perpendicularLength = Math.sqrt(perpendicularX * perpendicularX + perpendicularY * perpendicularY + perpendicularZ * perpendicularZ);
+        if (perpendicularLength === 0) { // Fallback if parallel
+            perpendicularX = 0;
+            perpendicularY = 1;
+            perpendicularZ = 0;
+        } else {
+            perpendicularX /= perpendicularLength;
+            perpendicularY /= perpendicularLength;
+            perpendicularZ /= perpendicularLength;
+        }
+        const amplitude = Math.sqrt(travelX * travelX + travelY * travelY + travelZ * travelZ) * swirl;
+        attractorPosition[j] = sphereX + travelX * progress + perpendicularX * amplitude;
+        attractorPosition[j + 1] = sphereY + travelY * progress + perpendicularY * amplitude;
+        attractorPosition[j + 2] = sphereZ + travelZ * progress + perpendicularZ * amplitude;
+    }
+};
+
+// Eases particles towards their pointer burst, or towards the sphere around
+// the pointer once attracting, keeping the step as velocity for the release.
+export const stepPointerAttraction = (buffers: ParticleBuffers, mode: 'bursting' | 'attracting', pointerX: number, pointerY: number, pointerZ: number) => {
+    const { currentPosition, velocity, mouseBurstPosition, sphereTargetPosition } = buffers;
+    const bursting = mode === 'bursting';
+    const lerpFactor = bursting ? 0.08 : 0.04;
+    for (let i = 0; i < buffers.count; i++) {
+        const j = i * 3;
+        const targetX = bursting ? mouseBurstPosition[j] : pointerX + sphereTargetPosition[j];
+        const targetY = bursting ? mouseBurstPosition[j + 1] : pointerY + sphereTargetPosition[j + 1];
+        const targetZ = bursting ? mouseBurstPosition[j + 2] : pointerZ + sphereTargetPosition[j + 2];
+        velocity[j] = (targetX - currentPosition[j]) * lerpFactor;
+        velocity[j + 1] = (targetY - currentPosition[j + 1]) * lerpFactor;
+        velocity[j + 2] = (targetZ - currentPosition[j + 2]) * lerpFactor;
+        currentPosition[j] += velocity[j];
+        currentPosition[j + 1] += velocity[j + 1];
+        currentPosition[j + 2] += velocity[j + 2];
+    }
+};
+
+// Springs every particle back to its attractor, pushed away from the pointer
+// when `push` is set.
+export const stepPhysics = (buffers: ParticleBuffers, pointerX: number, pointerY: number, pointerZ: number, push: boolean) => {
+    const { currentPosition, velocity, attractorPosition } = buffers;
+    for (let i = 0; i < buffers.count; i++) {
+        const j = i * 3;
+        if (push) {
+            const dx = currentPosition[j] - pointerX;
+            const dy = currentPosition[j + 1] - pointerY;
+            const dz = currentPosition[j + 2] - pointerZ;
+            const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+            if (distance < PUSH_RADIUS && distance > 0) {
+                const strength = ((PUSH_RADIUS - distance) / PUSH_RADIUS) * PUSH_STRENGTH / distance;
+                velocity[j] += dx * strength;
+                velocity[j + 1] += dy * strength;
+                velocity[j + 2] += dz * strength;
+            }
+        }
+        for (let k = j; k < j + 3; k++) {
+            velocity[k] = (velocity[k] + (attractorPosition[k] - currentPosition[k]) * RETURN_STRENGTH) * DAMPING;
+            currentPosition[k] += velocity[k];
+        }
+    }
+};
+
+/**
+ * Writes every particle straight into an InstancedMesh's buffers: a scale and
+ * translation matrix per instance, and colors and visibilities when given.
+ */
+export const writeInstances = (buffers: ParticleBuffers, matrices: Float32Array, colors: Float32Array | null, visibilities: Float32Array | null) => {
+    const { count, currentPosition, currentVisibility } = buffers;
+    for (let i = 0; i < count; i++) {
+        const m = i * 16;
+        const j = i * 3;
+        const scale = currentVisibility[i];
+        matrices.fill(0, m, m + 16);
+        matrices[m] = scale;
+        matrices[m + 5] = scale;
+        matrices[m + 10] = scale;
+        matrices[m + 12] = currentPosition[j];
+        matrices[m + 13] = currentPosition[j + 1];
+        matrices[m + 14] = currentPosition[j + 2];
+        matrices[m + 15] = 1;
+    }
+    colors?.set(buffers.currentColor.subarray(0, count * 3));
+    visibilities?.set(currentVisibility.subarray(0, count));
+};